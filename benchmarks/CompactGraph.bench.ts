@@ -0,0 +1,92 @@
+/**
+ * Compares `CompactGraph` with the Map-based `Directed` graph on a random sparse graph.
+ * Run with `deno task bench`, which also prints the heap used by each representation.
+ */
+import { CompactGraph } from "../structures/CompactGraph.ts";
+import { Directed } from "../structures/Graph.ts";
+import { createRandom } from "../utils/Random.ts";
+
+type Item = { value: number };
+
+const NODES = 50_000;
+const EDGES = 250_000;
+
+const random = createRandom(1);
+const nodes: Item[] = Array.from({ length: NODES }, (_, value) => ({ value }));
+const edges = Array.from({ length: EDGES }, () => ({
+  from: Math.floor(random() * NODES),
+  to: Math.floor(random() * NODES),
+  weight: 1 + Math.floor(random() * 10),
+}));
+
+function buildDirected(): Directed<Item> {
+  const graph = new Directed<Item>();
+  for (const node of nodes) graph.addNode(node);
+  for (const { from, to, weight } of edges) {
+    graph.addWeightedEdge(nodes[from], nodes[to], weight);
+  }
+  return graph;
+}
+
+function buildCompact(): CompactGraph<Item> {
+  return CompactGraph.fromEdgeList(nodes, edges);
+}
+
+/**
+ * Measures how much the heap grows while the value returned by `build` is alive.
+ * Only accurate when garbage collection is exposed (`--v8-flags=--expose-gc`).
+ */
+function heapGrowth(build: () => unknown): number {
+  const gc = (globalThis as { gc?: () => void }).gc;
+  gc?.();
+  const before = Deno.memoryUsage().heapUsed;
+  const value = build();
+  gc?.();
+  const after = Deno.memoryUsage().heapUsed;
+  // Keep the value reachable until the second measurement
+  if (value === undefined) throw new Error("unreachable");
+  return after - before;
+}
+
+const directed = buildDirected();
+const compact = buildCompact();
+const megabytes = (bytes: number) => `${(bytes / 2 ** 20).toFixed(1)} MB`;
+console.log(
+  `Heap for ${NODES} nodes and ${EDGES} edges: Directed ${
+    megabytes(heapGrowth(buildDirected))
+  }, CompactGraph ${megabytes(heapGrowth(buildCompact))} (${
+    megabytes(compact.byteLength())
+  } in typed arrays)`,
+);
+
+Deno.bench("Directed - build", { group: "build", baseline: true }, () => {
+  buildDirected();
+});
+
+Deno.bench("CompactGraph - build", { group: "build" }, () => {
+  buildCompact();
+});
+
+Deno.bench("Directed - bfs", { group: "bfs", baseline: true }, () => {
+  directed.bfs(nodes[0], () => {});
+});
+
+Deno.bench("CompactGraph - bfs", { group: "bfs" }, () => {
+  compact.bfs(nodes[0], () => {});
+});
+
+Deno.bench("Directed - dfs", { group: "dfs", baseline: true }, () => {
+  directed.dfs(nodes[0], () => {});
+});
+
+Deno.bench("CompactGraph - dfs", { group: "dfs" }, () => {
+  compact.dfs(nodes[0], () => {});
+});
+
+Deno.bench("Directed - dijkstra", { group: "dijkstra", baseline: true }, () => {
+  directed.dijkstra(nodes[0]);
+});
+
+Deno.bench("CompactGraph - dijkstra", { group: "dijkstra" }, () => {
+  compact.dijkstra(nodes[0]);
+});
@@ -6,8 +6,12 @@
 
 export * from "./interfaces/Comparable.ts";
 export * from "./structures/BinaryTree.ts";
+export * from "./structures/CompactGraph.ts";
+export * from "./structures/DisjointSet.ts";
 export * from "./structures/Graph.ts";
+export * from "./structures/GraphGenerators.ts";
 export * from "./structures/Nodes.ts";
+export * from "./structures/PriorityQueue.ts";
 export * from "./structures/Queue.ts";
 export * from "./structures/SinglyLinkedList.ts";
 export * from "./structures/Stack.ts";
@@ -0,0 +1,510 @@
+/**
+ * This module provides a read-only graph stored in compressed sparse row (CSR) form.
+ * It trades the ability to add or remove nodes and edges for a much smaller memory
+ * footprint and faster traversals, which suits very large, rarely changing graphs.
+ * @module
+ */
+import type { DataShapeWithValue } from "../interfaces/Comparable.ts";
+import {
+  Directed,
+  type GraphError,
+  type GraphLogger,
+  type GraphOptions,
+  NegativeWeightError,
+  type NodeKey,
+  NodeNotFoundError,
+  type Unidirected,
+} from "./Graph.ts";
+import { PriorityQueue, type PriorityQueueHandle } from "./PriorityQueue.ts";
+import { defaultLogger, reportFailure } from "../utils/Reporting.ts";
+
+/**
+ * An edge given to `CompactGraph.fromEdgeList`, naming its end nodes by key.
+ */
+export type CompactEdge = { from: NodeKey; to: NodeKey; weight?: number };
+
+/**
+ * Options accepted by `CompactGraph.fromEdgeList`.
+ * @template T The type of data stored in the graph nodes.
+ */
+export type CompactGraphOptions<T> = GraphOptions<T> & {
+  /** Whether edges only go from `from` to `to`. Defaults to `true`. */
+  directed?: boolean;
+};
+
+/**
+ * A read-only graph stored in compressed sparse row (CSR) form.
+ * The outgoing edges of every node sit next to each other in typed arrays: the edges of
+ * the node at position `i` are the entries `offsets[i]` to `offsets[i + 1] - 1` of `targets`
+ * and `weights`. This needs about 12 bytes per edge instead of an object per edge, and
+ * traversals walk contiguous memory.
+ *
+ * Build one from a `Directed` or `Unidirected` graph with `fromGraph`, or straight from
+ * an edge list with `fromEdgeList`. Unidirected edges are stored in both directions, as
+ * in `Unidirected`. Traversal orders and results match the Map-based classes.
+ * @template T The type of data stored in the graph nodes. Must implement `DataShapeWithValue`.
+ */
+export class CompactGraph<T extends DataShapeWithValue> {
+  /**
+   * Whether the edges are directed.
+   */
+  readonly directed: boolean;
+  /**
+   * Derives the identity of a node, see `GraphOptions.keyOf`.
+   */
+  readonly keyOf: (data: T) => NodeKey;
+  /**
+   * Whether failures throw a `GraphError` instead of being logged.
+   */
+  readonly strict: boolean;
+  /**
+   * Receives the failures reported outside of strict mode.
+   */
+  private logger: GraphLogger;
+  /**
+   * The node data, by position.
+   */
+  private nodes: T[];
+  /**
+   * Maps each node key to its position.
+   */
+  private index: Map<NodeKey, number>;
+  /**
+   * Where each node's edges start in `targets` and `weights`; has one extra entry for the end.
+   */
+  private offsets: Uint32Array;
+  /**
+   * The target node position of every edge, grouped by source node.
+   */
+  private targets: Uint32Array;
+  /**
+   * The weight of every edge, or `NaN` for unweighted edges.
+   */
+  private weights: Float64Array;
+
+  /**
+   * Sorts the edges into CSR form. Edges keep their relative order within each source node.
+   * @param nodes The node data, in order.
+   * @param sources The source position of every edge.
+   * @param targets The target position of every edge.
+   * @param weights The weight of every edge, or `NaN` when unweighted.
+   * @param options The graph options and whether the edges are directed.
+   */
+  private constructor(
+    nodes: T[],
+    sources: Uint32Array,
+    targets: Uint32Array,
+    weights: Float64Array,
+    options: CompactGraphOptions<T>,
+  ) {
+    this.directed = options.directed ?? true;
+    this.keyOf = options.keyOf ?? ((data) => data.value);
+    this.strict = options.strict ?? false;
+    this.logger = options.logger ?? defaultLogger;
+    this.nodes = nodes;
+    this.index = new Map();
+    nodes.forEach((node, i) => this.index.set(this.keyOf(node), i));
+
+    // Counting sort by source position
+    this.offsets = new Uint32Array(nodes.length + 1);
+    for (const source of sources) this.offsets[source + 1]++;
+    for (let i = 0; i < nodes.length; i++) {
+      this.offsets[i + 1] += this.offsets[i];
+    }
+    const next = this.offsets.slice(0, nodes.length);
+    this.targets = new Uint32Array(targets.length);
+    this.weights = new Float64Array(targets.length);
+    sources.forEach((source, edge) => {
+      const slot = next[source]++;
+      this.targets[slot] = targets[edge];
+      this.weights[slot] = weights[edge];
+    });
+  }
+
+  /**
+   * Creates a compact copy of a graph, with the same nodes, edges and edge order.
+   * Later changes to the source graph are not reflected in the copy.
+   * @param graph The `Directed` or `Unidirected` graph to copy.
+   * @param options Optional logger and strictness; `keyOf` and `strict` default to the graph's own.
+   * @returns The new compact graph.
+   */
+  static fromGraph<U extends DataShapeWithValue>(
+    graph: Directed<U> | Unidirected<U>,
+    options: Omit<GraphOptions<U>, "keyOf"> = {},
+  ): CompactGraph<U> {
+    const nodes = graph.getNodes();
+    const index: Map<NodeKey, number> = new Map();
+    nodes.forEach((node, i) => index.set(graph.keyOf(node), i));
+
+    let count = 0;
+    for (const node of nodes) count += graph.getNeighbors(node)!.length;
+    const sources = new Uint32Array(count);
+    const targets = new Uint32Array(count);
+    const weights = new Float64Array(count);
+
+    let edge = 0;
+    nodes.forEach((node, i) => {
+      for (const { target, weight } of graph.getNeighbors(node)!) {
+        sources[edge] = i;
+        targets[edge] = index.get(graph.keyOf(target))!;
+        weights[edge++] = weight ?? NaN;
+      }
+    });
+
+    return new CompactGraph(nodes, sources, targets, weights, {
+      strict: graph.strict,
+      ...options,
+      keyOf: graph.keyOf,
+      directed: graph instanceof Directed,
+    });
+  }
+
+  /**
+   * Creates a compact graph straight from its nodes and edges, without building a
+   * `Directed` or `Unidirected` graph first.
+   * @param nodes The node data. Nodes with the same key are merged, keeping the first one.
+   * @param edges The edges, naming their end nodes by key (see `keyOf`).
+   *              Unidirected edges are stored in both directions.
+   * @param options Optional graph options, plus `directed` (defaults to `true`).
+   * @returns The new compact graph.
+   * @throws {NodeNotFoundError} If an edge names a node that is not in `nodes`.
+   */
+  static fromEdgeList<U extends DataShapeWithValue>(
+    nodes: Iterable<U>,
+    edges: Iterable<CompactEdge>,
+    options: CompactGraphOptions<U> = {},
+  ): CompactGraph<U> {
+    const keyOf = options.keyOf ?? ((data: U) => data.value);
+    const unique: U[] = [];
+    const index: Map<NodeKey, number> = new Map();
+    for (const node of nodes) {
+      if (index.has(keyOf(node))) continue;
+      index.set(keyOf(node), unique.length);
+      unique.push(node);
+    }
+
+    const directed = options.directed ?? true;
+    const list = Array.isArray(edges) ? edges : [...edges];
+    const count = directed ? list.length : list.length * 2;
+    const sources = new Uint32Array(count);
+    const targets = new Uint32Array(count);
+    const weights = new Float64Array(count);
+
+    let edge = 0;
+    list.forEach(({ from, to, weight }, i) => {
+      const source = index.get(from);
+      const target = index.get(to);
+      if (source === undefined || target === undefined) {
+        const missing = source === undefined ? from : to;
+        throw new NodeNotFoundError(
+          missing,
+          `Invalid edge list: edge ${i} references unknown node ${missing}`,
+        );
+      }
+      sources[edge] = source;
+      targets[edge] = target;
+      weights[edge++] = weight ?? NaN;
+      if (!directed) {
+        sources[edge] = target;
+        targets[edge] = source;
+        weights[edge++] = weight ?? NaN;
+      }
+    });
+
+    return new CompactGraph(unique, sources, targets, weights, {
+      ...options,
+      keyOf,
+    });
+  }
+
+  /**
+   * Checks if a node exists in the graph.
+   * @param data The data of the node to check.
+   * @returns `true` if the node exists, `false` otherwise.
+   */
+  hasNode(data: T): boolean {
+    return this.index.has(this.keyOf(data));
+  }
+
+  /**
+   * Looks up a node by its key.
+   * @param key The key of the node, as returned by `keyOf`.
+   * @returns The data of the node, or `undefined` if no node has that key.
+   */
+  getNodeByKey(key: NodeKey): T | undefined {
+    const position = this.index.get(key);
+    return position === undefined ? undefined : this.nodes[position];
+  }
+
+  /**
+   * Retrieves all nodes in the graph.
+   * @returns An array containing the data of all nodes, in the order they were given.
+   */
+  getNodes(): T[] {
+    return [...this.nodes];
+  }
+
+  /**
+   * Retrieves the outgoing edges of a node. The edge objects are created on each call, and are
+   * plain `{ target, weight? }` objects rather than `GraphEdge` instances, as compact graphs
+   * store no edge IDs, labels or attributes.
+   * @param data The data of the node.
+   * @returns The edges in the order they were added, or `undefined` if the node is not found.
+   */
+  getNeighbors(data: T): { target: T; weight?: number }[] | undefined {
+    const node = this.index.get(this.keyOf(data));
+    if (node === undefined) return undefined;
+
+    const edges: { target: T; weight?: number }[] = [];
+    for (let edge = this.offsets[node]; edge < this.offsets[node + 1]; edge++) {
+      const target = this.nodes[this.targets[edge]];
+      const weight = this.weights[edge];
+      edges.push(Number.isNaN(weight) ? { target } : { target, weight });
+    }
+    return edges;
+  }
+
+  /**
+   * Checks if there is an edge from one node to another.
+   * @param from The data of the source node.
+   * @param to The data of the target node.
+   * @returns `true` if the edge exists, `false` otherwise (including when either node is missing).
+   */
+  hasEdge(from: T, to: T): boolean {
+    const source = this.index.get(this.keyOf(from));
+    const target = this.index.get(this.keyOf(to));
+    if (source === undefined || target === undefined) return false;
+    for (
+      let edge = this.offsets[source];
+      edge < this.offsets[source + 1];
+      edge++
+    ) {
+      if (this.targets[edge] === target) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Counts the outgoing edges of a node. For unidirected graphs this is the degree,
+   * with self-loops counted twice.
+   * @param data The data of the node.
+   * @returns The number of outgoing edges, or `undefined` if the node is not found.
+   */
+  outDegree(data: T): number | undefined {
+    const node = this.index.get(this.keyOf(data));
+    if (node === undefined) return undefined;
+    return this.offsets[node + 1] - this.offsets[node];
+  }
+
+  /**
+   * Counts the edges in the graph. Unidirected edges are counted once.
+   * @returns The number of edges.
+   */
+  edgeCount(): number {
+    return this.directed ? this.targets.length : this.targets.length / 2;
+  }
+
+  /**
+   * Returns the memory held by the typed arrays behind the graph. The node data and the key
+   * index are not included.
+   * @returns The size of the offsets, targets and weights arrays in bytes.
+   */
+  byteLength(): number {
+    return this.offsets.byteLength + this.targets.byteLength +
+      this.weights.byteLength;
+  }
+
+  /**
+   * Performs a Breadth-First Search (BFS) traversal starting from a given node,
+   * visiting nodes in the same order as `Directed.bfs` and `Unidirected.bfs`.
+   * @param startNodeData The data of the node to start the traversal from.
+   * @param processNode A callback function to execute on the data of each visited node.
+   *                    Return `false` from it to stop the traversal early.
+   * @throws {NodeNotFoundError} In strict mode, if the start node is not in the graph.
+   */
+  bfs(startNodeData: T, processNode: (data: T) => unknown): void {
+    const start = this.index.get(this.keyOf(startNodeData));
+    if (start === undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          this.keyOf(startNodeData),
+          `BFS failed: Start node with data ${
+            this.keyOf(startNodeData)
+          } not found.`,
+        ),
+        undefined,
+      );
+    }
+
+    const visited = new Uint8Array(this.nodes.length);
+    const queue = new Uint32Array(this.nodes.length);
+    let tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+
+    for (let head = 0; head < tail; head++) {
+      const node = queue[head];
+      if (processNode(this.nodes[node]) === false) return;
+      for (
+        let edge = this.offsets[node];
+        edge < this.offsets[node + 1];
+        edge++
+      ) {
+        const target = this.targets[edge];
+        if (!visited[target]) {
+          visited[target] = 1;
+          queue[tail++] = target;
+        }
+      }
+    }
+  }
+
+  /**
+   * Performs a Depth-First Search (DFS) traversal starting from a given node.
+   * Neighbors are explored from the last one added to the first, visiting nodes in the
+   * same order as `Directed.dfs` and `Unidirected.dfs`. Uses an explicit stack.
+   * @param startNodeData The data of the node to start the traversal from.
+   * @param processNode A callback function to execute on the data of each visited node.
+   *                    Return `false` from it to stop the traversal early.
+   * @throws {NodeNotFoundError} In strict mode, if the start node is not in the graph.
+   */
+  dfs(startNodeData: T, processNode: (data: T) => unknown): void {
+    const start = this.index.get(this.keyOf(startNodeData));
+    if (start === undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          this.keyOf(startNodeData),
+          `DFS failed: Start node with data ${
+            this.keyOf(startNodeData)
+          } not found.`,
+        ),
+        undefined,
+      );
+    }
+
+    // Each stack entry holds a node and the next of its edges to try, walking backwards
+    const visited = new Uint8Array(this.nodes.length);
+    const stackNode = new Uint32Array(this.nodes.length);
+    const stackEdge = new Int32Array(this.nodes.length);
+    let depth = 0;
+    visited[start] = 1;
+    if (processNode(this.nodes[start]) === false) return;
+    stackNode[depth] = start;
+    stackEdge[depth++] = this.offsets[start + 1] - 1;
+
+    while (depth > 0) {
+      const top = depth - 1;
+      if (stackEdge[top] < this.offsets[stackNode[top]]) {
+        depth--;
+        continue;
+      }
+
+      const target = this.targets[stackEdge[top]--];
+      if (visited[target]) continue;
+      visited[target] = 1;
+      if (processNode(this.nodes[target]) === false) return;
+      stackNode[depth] = target;
+      stackEdge[depth++] = this.offsets[target + 1] - 1;
+    }
+  }
+
+  /**
+   * Implements Dijkstra's algorithm to find the shortest paths from a start node to all
+   * other reachable nodes, with the same results as `Directed.dijkstra` and
+   * `Unidirected.dijkstra`. Unweighted edges count as 1. Runs in O((V + E) log V).
+   * Edges must have non-negative weights.
+   *
+   * @param startNodeData The data of the node to start the algorithm from.
+   * @returns A tuple containing:
+   *          - distances: A Map where keys are node keys (see `keyOf`) and values are the shortest distance from the start node. Infinity if unreachable.
+   *          - predecessors: A Map where keys are node keys (see `keyOf`) and values are the predecessor node data (T) on the shortest path from the start node, or null for the start node.
+   * @throws {GraphError} In strict mode, if the start node is missing (`NodeNotFoundError`) or a weight is negative (`NegativeWeightError`).
+   */
+  dijkstra(startNodeData: T): {
+    distances: Map<NodeKey, number>;
+    predecessors: Map<NodeKey, T | null>;
+  } {
+    const start = this.index.get(this.keyOf(startNodeData));
+    if (start === undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          this.keyOf(startNodeData),
+          `Dijkstra failed: Start node with data ${
+            this.keyOf(startNodeData)
+          } not found.`,
+        ),
+        { distances: new Map(), predecessors: new Map() },
+      );
+    }
+
+    const size = this.nodes.length;
+    const distance = new Float64Array(size).fill(Infinity);
+    const predecessor = new Int32Array(size).fill(-1);
+    const settled = new Uint8Array(size);
+    // Ties between equally distant nodes are settled in node order
+    const queue = new PriorityQueue<number>(
+      (a, b) => distance[a] - distance[b] || a - b,
+    );
+    const handles: (PriorityQueueHandle<number> | undefined)[] = new Array(
+      size,
+    );
+
+    distance[start] = 0;
+    handles[start] = queue.push(start);
+    while (!queue.isEmpty()) {
+      const node = queue.pop()!;
+      settled[node] = 1;
+      for (
+        let edge = this.offsets[node];
+        edge < this.offsets[node + 1];
+        edge++
+      ) {
+        const weight = Number.isNaN(this.weights[edge])
+          ? 1
+          : this.weights[edge];
+        if (weight < 0) {
+          return this.fail(
+            new NegativeWeightError(
+              weight,
+              "Dijkstra requires non-negative edge weights. Found negative weight.",
+            ),
+            { distances: new Map(), predecessors: new Map() },
+          );
+        }
+
+        const target = this.targets[edge];
+        const candidate = distance[node] + weight;
+        if (settled[target] || candidate >= distance[target]) continue;
+        distance[target] = candidate;
+        predecessor[target] = node;
+        if (handles[target] === undefined) {
+          handles[target] = queue.push(target);
+        } else {
+          queue.decreaseKey(handles[target]!, target);
+        }
+      }
+    }
+
+    const distances: Map<NodeKey, number> = new Map();
+    const predecessors: Map<NodeKey, T | null> = new Map();
+    this.nodes.forEach((node, i) => {
+      distances.set(this.keyOf(node), distance[i]);
+      predecessors.set(
+        this.keyOf(node),
+        predecessor[i] === -1 ? null : this.nodes[predecessor[i]],
+      );
+    });
+    return { distances, predecessors };
+  }
+
+  /**
+   * Reports a failure: throws it in strict mode, otherwise logs its message.
+   * @param error The error describing the failure.
+   * @param fallback The value to return outside of strict mode.
+   * @returns The fallback value.
+   * @throws {GraphError} The given error, in strict mode.
+   */
+  private fail<R>(error: GraphError, fallback: R): R {
+    return reportFailure(error, fallback, this.strict, this.logger);
+  }
+}
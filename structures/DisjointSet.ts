@@ -0,0 +1,164 @@
+/**
+ * Implementation of a generic Disjoint Set (union-find) data structure.
+ * Tracks a collection of elements partitioned into non-overlapping sets and
+ * supports near-constant-time merging and membership queries.
+ * @module
+ */
+
+/**
+ * Implementation of a generic Disjoint Set (union-find) data structure.
+ * Uses path compression in `find` and union by rank in `union`, so every
+ * operation runs in amortized O(α(n)) time (effectively constant).
+ * Elements are identified the same way `Map` keys are: by value for primitives
+ * and by reference for objects.
+ * @template T The type of elements stored in the set.
+ */
+export class DisjointSet<T> {
+  /**
+   * Maps each element to its parent; a root is its own parent.
+   */
+  private parent: Map<T, T>;
+  /**
+   * Upper bound on the height of each root's tree, used for union by rank.
+   */
+  private rank: Map<T, number>;
+  /**
+   * The number of disjoint sets currently tracked.
+   */
+  private count: number;
+
+  /**
+   * Creates a new DisjointSet.
+   * @param items Optional elements to add, each in its own singleton set.
+   */
+  constructor(items: Iterable<T> = []) {
+    this.parent = new Map();
+    this.rank = new Map();
+    this.count = 0;
+    for (const item of items) {
+      this.add(item);
+    }
+  }
+
+  /**
+   * Adds an element in its own singleton set if it is not already present.
+   * @param item The element to add.
+   * @returns `true` if the element was added, `false` if it already existed.
+   */
+  add(item: T): boolean {
+    if (this.parent.has(item)) return false;
+    this.parent.set(item, item);
+    this.rank.set(item, 0);
+    this.count++;
+    return true;
+  }
+
+  /**
+   * Checks if an element has been added to the structure.
+   * @param item The element to check.
+   * @returns `true` if the element is present, `false` otherwise.
+   */
+  has(item: T): boolean {
+    return this.parent.has(item);
+  }
+
+  /**
+   * Finds the representative (root) of the set containing an element,
+   * compressing the path along the way.
+   * @param item The element to look up.
+   * @returns The representative of the element's set, or `undefined` if the element is not present.
+   */
+  find(item: T): T | undefined {
+    if (!this.parent.has(item)) return undefined;
+
+    let root = item;
+    while (this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+
+    // Point every element on the path directly at the root
+    let current = item;
+    while (current !== root) {
+      const next = this.parent.get(current)!;
+      this.parent.set(current, root);
+      current = next;
+    }
+
+    return root;
+  }
+
+  /**
+   * Merges the sets containing two elements. Missing elements are added first.
+   * @param a An element of the first set.
+   * @param b An element of the second set.
+   * @returns `true` if two different sets were merged, `false` if both were already in the same set.
+   */
+  union(a: T, b: T): boolean {
+    this.add(a);
+    this.add(b);
+    const rootA = this.find(a)!;
+    const rootB = this.find(b)!;
+    if (rootA === rootB) return false;
+
+    // Attach the shallower tree under the deeper one
+    const rankA = this.rank.get(rootA)!;
+    const rankB = this.rank.get(rootB)!;
+    if (rankA < rankB) {
+      this.parent.set(rootA, rootB);
+    } else if (rankA > rankB) {
+      this.parent.set(rootB, rootA);
+    } else {
+      this.parent.set(rootB, rootA);
+      this.rank.set(rootA, rankA + 1);
+    }
+
+    this.count--;
+    return true;
+  }
+
+  /**
+   * Checks if two elements belong to the same set.
+   * @param a The first element.
+   * @param b The second element.
+   * @returns `true` if both elements are present and in the same set, `false` otherwise.
+   */
+  connected(a: T, b: T): boolean {
+    const rootA = this.find(a);
+    return rootA !== undefined && rootA === this.find(b);
+  }
+
+  /**
+   * Returns the number of disjoint sets.
+   * @returns The number of disjoint sets.
+   */
+  componentCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Returns the total number of elements across all sets.
+   * @returns The number of elements.
+   */
+  size(): number {
+    return this.parent.size;
+  }
+
+  /**
+   * Lists the members of every set.
+   * Sets are ordered by their earliest-added member, and members keep the order in which they were added.
+   * @returns An array of sets, each an array of elements.
+   */
+  groups(): T[][] {
+    const byRoot: Map<T, T[]> = new Map();
+    for (const item of this.parent.keys()) {
+      const root = this.find(item)!;
+      const group = byRoot.get(root);
+      if (group) {
+        group.push(item);
+      } else {
+        byRoot.set(root, [item]);
+      }
+    }
+    return [...byRoot.values()];
+  }
+}
@@ -4,414 +4,4857 @@
  * @module
  */
 import type { DataShapeWithValue } from "../interfaces/Comparable.ts";
+import { DisjointSet } from "./DisjointSet.ts";
+import { PriorityQueue, type PriorityQueueHandle } from "./PriorityQueue.ts";
+import {
+  type DotAttributes,
+  type DotDocument,
+  formatAttributesDOT,
+  parseDOT,
+  quoteDOT,
+} from "../utils/Dot.ts";
+import { createRandom, type RandomSource, shuffle } from "../utils/Random.ts";
+import { defaultLogger, reportFailure } from "../utils/Reporting.ts";
+
+export type { DotAttributes } from "../utils/Dot.ts";
+
+/**
+ * Arbitrary data attached to an edge, such as `{ since: 2020 }`.
+ */
+export type EdgeAttributes = Record<string, unknown>;
 
 /**
- * Represents an edge connecting two nodes in a graph.
- * An edge can optionally have a weight.
+ * The optional details of a new edge, accepted by `addEdge` and `addWeightedEdge`.
  */
-class GraphEdge<T extends DataShapeWithValue> {
+export type EdgeOptions = {
+  /** The kind of edge, e.g. `"follows"` or `"blocks"`. */
+  label?: string;
+  /** Arbitrary data to attach to the edge. The record is copied. */
+  attributes?: EdgeAttributes;
+};
+
+/**
+ * Represents an edge connecting two nodes in a graph, as returned by `getNeighbors` and `getEdge`.
+ * An edge can optionally have a weight, a label and attributes.
+ * Unidirected edges are stored once in each node's adjacency list; both copies share
+ * the same `id` and `attributes` record.
+ */
+export class GraphEdge<T extends DataShapeWithValue> {
   /**
    * @param target The data of the target node of this edge.
    * @param weight Optional weight associated with the edge.
+   * @param id The identifier of the edge, unique within its graph. Parallel edges get distinct IDs.
+   * @param label Optional kind of the edge.
+   * @param attributes Arbitrary data attached to the edge.
    */
   constructor(
     public target: T,
-    public weight?: number,
+    public weight: number | undefined,
+    readonly id: number,
+    public label?: string,
+    public attributes: EdgeAttributes = {},
   ) {}
 }
 
 /**
- * Provides common methods and properties for graph implementations (Directed and Unidirected).
- * It manages the nodes and the adjacency list.
+ * The identity of a graph node, as derived by the graph's `keyOf` function.
  */
-export class CommonGraphMethods<T extends DataShapeWithValue> {
+export type NodeKey = string | number;
+
+/**
+ * Options accepted by the `Directed` and `Unidirected` constructors.
+ * @template T The type of data stored in the graph nodes.
+ */
+export type GraphOptions<T> = {
+  /**
+   * Derives the identity of a node, e.g. `(data) => data.id` for string IDs, or a string
+   * joining several fields for composite keys. Defaults to `data.value`.
+   * Result maps such as the `distances` returned by `dijkstra` are keyed by it.
+   */
+  keyOf?: (data: T) => NodeKey;
+  /**
+   * When `true`, failures such as a missing node or a negative weight throw a `GraphError`.
+   * Otherwise (the default) they are reported to `logger.error` and the method returns
+   * an empty result such as `null`.
+   */
+  strict?: boolean;
+  /**
+   * Receives the graph's messages. Defaults to discarding informational messages and
+   * writing errors to `console.error`; pass `console` to also see every mutation.
+   */
+  logger?: GraphLogger;
+  /**
+   * Whether several edges may join the same pair of nodes in the same direction.
+   * Defaults to `true`; every parallel edge gets its own `id`. When `false`, adding an
+   * edge that already exists is handled according to `duplicateEdges`.
+   */
+  multigraph?: boolean;
+  /**
+   * What adding an existing edge does when `multigraph` is `false`: `"reject"` (default)
+   * fails with a `DuplicateEdgeError`, while `"merge"` updates the existing edge with the
+   * new weight, label and attributes.
+   */
+  duplicateEdges?: "reject" | "merge";
+  /**
+   * Whether an edge may join a node to itself: `"allow"` (default), or `"reject"`,
+   * which fails with a `SelfLoopError`.
+   */
+  selfLoops?: "allow" | "reject";
+};
+
+/**
+ * Destination for the messages a graph reports, see `GraphOptions.logger`.
+ */
+export interface GraphLogger {
+  /**
+   * Receives informational messages, such as the creation of the graph or an added edge.
+   * @param message The message.
+   */
+  info(message: string): void;
+  /**
+   * Receives the failures reported outside of strict mode.
+   * @param message The error message.
+   */
+  error(message: string): void;
+}
+
+/**
+ * The payload of the `onEdgeAdded` and `onEdgeRemoved` events.
+ * Unidirected edges are reported once, from the `from` node passed to the mutating method.
+ * @template T The type of data stored in the graph nodes.
+ */
+export type EdgeEvent<T> = { from: T; to: T; weight?: number; id: number };
+
+/**
+ * The events emitted by a graph and the payload passed to their listeners.
+ * @template T The type of data stored in the graph nodes.
+ */
+type GraphEventMap<T> = {
+  nodeAdded: T;
+  nodeRemoved: T;
+  edgeAdded: EdgeEvent<T>;
+  edgeRemoved: EdgeEvent<T>;
+};
+
+/**
+ * Base class of every error raised by the graph classes.
+ * In strict mode (see `GraphOptions.strict`) failures throw a subclass of this error.
+ */
+export class GraphError extends Error {
+  /**
+   * Creates a new GraphError.
+   * @param message The error message.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "GraphError";
+  }
+}
+
+/**
+ * Error raised when an operation refers to a node that is not in the graph.
+ */
+export class NodeNotFoundError extends GraphError {
+  /**
+   * The key of the missing node.
+   */
+  key: NodeKey;
+
+  /**
+   * Creates a new NodeNotFoundError.
+   * @param key The key of the missing node.
+   * @param message Optional message. Defaults to naming the missing node.
+   */
+  constructor(key: NodeKey, message = `Node ${key} not found.`) {
+    super(message);
+    this.name = "NodeNotFoundError";
+    this.key = key;
+  }
+}
+
+/**
+ * Error raised when an algorithm that requires non-negative weights meets a negative one.
+ */
+export class NegativeWeightError extends GraphError {
+  /**
+   * The offending edge weight.
+   */
+  weight: number;
+
+  /**
+   * Creates a new NegativeWeightError.
+   * @param weight The offending edge weight.
+   * @param message Optional message. Defaults to naming the weight.
+   */
+  constructor(weight: number, message = `Found negative weight ${weight}.`) {
+    super(message);
+    this.name = "NegativeWeightError";
+    this.weight = weight;
+  }
+}
+
+/**
+ * Error raised when shortest paths are undefined because of a negative-weight cycle.
+ */
+export class NegativeCycleError extends GraphError {
+  /**
+   * Creates a new NegativeCycleError.
+   * @param message Optional message.
+   */
+  constructor(message = "Graph contains a negative-weight cycle.") {
+    super(message);
+    this.name = "NegativeCycleError";
+  }
+}
+
+/**
+ * Error raised when an edge is added twice to a graph whose `multigraph` option is `false`.
+ */
+export class DuplicateEdgeError extends GraphError {
+  /**
+   * The key of the source node of the edge.
+   */
+  from: NodeKey;
+  /**
+   * The key of the target node of the edge.
+   */
+  to: NodeKey;
+
+  /**
+   * Creates a new DuplicateEdgeError.
+   * @param from The key of the source node of the edge.
+   * @param to The key of the target node of the edge.
+   * @param message Optional message. Defaults to naming the edge.
+   */
+  constructor(
+    from: NodeKey,
+    to: NodeKey,
+    message = `Edge from ${from} to ${to} already exists.`,
+  ) {
+    super(message);
+    this.name = "DuplicateEdgeError";
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Error raised when a self-loop is added to a graph whose `selfLoops` option is `"reject"`.
+ */
+export class SelfLoopError extends GraphError {
+  /**
+   * The key of the node the edge would loop on.
+   */
+  key: NodeKey;
+
+  /**
+   * Creates a new SelfLoopError.
+   * @param key The key of the node the edge would loop on.
+   * @param message Optional message. Defaults to naming the node.
+   */
+  constructor(
+    key: NodeKey,
+    message = `Self-loop on node ${key} is not allowed.`,
+  ) {
+    super(message);
+    this.name = "SelfLoopError";
+    this.key = key;
+  }
+}
+
+/**
+ * Error thrown when an operation that requires an acyclic graph encounters a cycle.
+ * @template T The type of data stored in the graph nodes.
+ */
+export class CycleError<T extends DataShapeWithValue> extends GraphError {
+  /**
+   * The nodes of one cycle in edge order; the last node links back to the first.
+   */
+  cycle: T[];
+
+  /**
+   * Creates a new CycleError.
+   * @param cycle The nodes forming the detected cycle.
+   * @param keyOf Optional function naming each node in the message. Defaults to the node `value`.
+   */
+  constructor(cycle: T[], keyOf: (data: T) => NodeKey = (data) => data.value) {
+    super(
+      `Graph contains a cycle: ${[...cycle, cycle[0]].map(keyOf).join(" -> ")}`,
+    );
+    this.name = "CycleError";
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * A node reached by `bfsIter`, `dfsIter` or `traverseAll`.
+ * @template T The type of data stored in the graph nodes.
+ */
+export type TraversalStep<T> = {
+  /** The node that was reached. */
+  node: T;
+  /** The number of edges between the node and the start of its traversal. */
+  depth: number;
+  /** The node it was reached from, or `null` for a start node. */
+  parent: T | null;
+};
+
+/**
+ * Node data of a condensation graph: one node per strongly connected component.
+ * @template T The type of data stored in the original graph's nodes.
+ */
+export type ComponentData<T> = {
+  /** The index of the component in `stronglyConnectedComponents()`. */
+  value: number;
+  /** The original nodes that make up the component. */
+  members: T[];
+};
+
+/**
+ * The result of `minimumSpanningTree`.
+ * @template T The type of data stored in the graph nodes.
+ */
+export type SpanningTree<T extends DataShapeWithValue> = {
+  /** The edges of the spanning tree (or forest); unweighted edges report a weight of 1. */
+  edges: { from: T; to: T; weight: number }[];
+  /** The sum of the weights of all chosen edges. */
+  totalWeight: number;
+  /** A new graph with every original node and only the chosen edges. */
+  tree: Unidirected<T>;
+};
+
+/**
+ * An entry in the priority queue used by `dijkstra`.
+ * `order` is the node's insertion index and breaks ties between equal distances.
+ */
+type DijkstraEntry<T> = { node: T; distance: number; order: number };
+
+/**
+ * An entry in the priority queue used by `aStar`.
+ * `estimate` is the known cost plus the heuristic; `remaining` is the heuristic alone.
+ */
+type AStarEntry<T> = { node: T; estimate: number; remaining: number };
+
+/**
+ * Node data that carries planar coordinates, as used by the built-in A* heuristics.
+ */
+export type PointData = DataShapeWithValue & { x: number; y: number };
+
+/**
+ * A* heuristic for grid graphs where movement is limited to the four cardinal directions.
+ * Admissible when every step costs at least 1 per unit of distance.
+ * @param node The node being evaluated.
+ * @param goal The goal node.
+ * @returns The Manhattan (taxicab) distance between the two nodes.
+ */
+export function manhattanHeuristic<T extends PointData>(
+  node: T,
+  goal: T,
+): number {
+  return Math.abs(node.x - goal.x) + Math.abs(node.y - goal.y);
+}
+
+/**
+ * A* heuristic for maps where movement in any direction is allowed.
+ * Admissible when edge weights are at least the straight-line distance between their nodes.
+ * @param node The node being evaluated.
+ * @param goal The goal node.
+ * @returns The Euclidean (straight-line) distance between the two nodes.
+ */
+export function euclideanHeuristic<T extends PointData>(
+  node: T,
+  goal: T,
+): number {
+  return Math.hypot(node.x - goal.x, node.y - goal.y);
+}
+
+/**
+ * Reconstructs a path by walking a predecessors map (as returned by `dijkstra`)
+ * back from the target node until a node with no predecessor is reached.
+ * Because the start node and unreachable nodes both have a `null` predecessor,
+ * check the matching `distances` entry to tell them apart: an unreachable
+ * target yields `[target]` with a distance of `Infinity`.
+ *
+ * @param predecessors A Map from node key to the predecessor node on the shortest path, or null.
+ * @param target The data of the node the path should end at.
+ * @param keyOf Optional function deriving node keys; pass the graph's `keyOf` when it is customized. Defaults to the node `value`.
+ * @returns The nodes from the start node to the target (inclusive), or an empty array if the target is not in the map.
+ */
+export function pathTo<T extends DataShapeWithValue>(
+  predecessors: Map<NodeKey, T | null>,
+  target: T,
+  keyOf: (data: T) => NodeKey = (data) => data.value,
+): T[] {
+  if (!predecessors.has(keyOf(target))) return [];
+
+  const path: T[] = [];
+  const seen: Set<NodeKey> = new Set();
+  let current: T | null = target;
+  // Guard against malformed maps with cycles
+  while (current !== null && !seen.has(keyOf(current))) {
+    seen.add(keyOf(current));
+    path.push(current);
+    current = predecessors.get(keyOf(current)) ?? null;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * The result of `floydWarshall`. All matrices are indexed by the position of a node in `nodes`.
+ * @template T The type of data stored in the graph nodes.
+ */
+export type FloydWarshallResult<T> = {
+  /** The graph's nodes, in the order used to index the matrices. */
+  nodes: T[];
+  /** `distances[i][j]` is the shortest distance from node i to node j, or Infinity if unreachable. */
+  distances: number[][];
+  /** `next[i][j]` is the index of the node that follows i on the shortest path to j, or null if unreachable. */
+  next: (number | null)[][];
+  /** Nodes that lie on a negative-weight cycle (their diagonal distance is negative). */
+  negativeCycleNodes: T[];
+};
+
+/**
+ * Reconstructs the shortest path between two nodes from a `floydWarshall` result
+ * by following the next-hop matrix.
+ *
+ * @param result The value returned by `floydWarshall`.
+ * @param from The data of the start node.
+ * @param to The data of the target node.
+ * @param keyOf Optional function deriving node keys; pass the graph's `keyOf` when it is customized. Defaults to the node `value`.
+ * @returns The nodes from `from` to `to` (inclusive), or `null` if either node is unknown,
+ *          the target is unreachable, or the path runs through a negative-weight cycle.
+ */
+export function floydWarshallPath<T extends DataShapeWithValue>(
+  result: FloydWarshallResult<T>,
+  from: T,
+  to: T,
+  keyOf: (data: T) => NodeKey = (data) => data.value,
+): T[] | null {
+  const { nodes, distances, next } = result;
+  const start = nodes.findIndex((node) => keyOf(node) === keyOf(from));
+  const end = nodes.findIndex((node) => keyOf(node) === keyOf(to));
+  if (start === -1 || end === -1 || next[start][end] === null) return null;
+
+  const path: T[] = [nodes[start]];
+  let current = start;
+  while (current !== end) {
+    current = next[current][end]!;
+    // A node on a negative cycle means the path has no finite shortest form
+    if (distances[current][current] < 0 || path.length > nodes.length) {
+      return null;
+    }
+    path.push(nodes[current]);
+  }
+  if (distances[start][start] < 0) return null;
+
+  return path;
+}
+
+/**
+ * The result of `Directed.maxFlow`.
+ * @template T The type of data stored in the graph nodes.
+ */
+export type MaxFlowResult<T> = {
+  /** The total flow from the source to the sink. */
+  value: number;
+  /** The flow assigned to every edge of the graph, in adjacency-list order. */
+  flows: { from: T; to: T; capacity: number; flow: number }[];
+  /** A minimum cut: its capacity equals `value`. */
+  minCut: {
+    /** The nodes on the source side of the cut (including the source). */
+    sourceSide: T[];
+    /** The saturated edges leading from the source side to the sink side. */
+    edges: { from: T; to: T; capacity: number }[];
+  };
+};
+
+/**
+ * The result of `Unidirected.isBipartite`.
+ * @template T The type of data stored in the graph nodes.
+ */
+export type BipartiteResult<T> =
+  | { bipartite: true; left: T[]; right: T[] }
+  | { bipartite: false; oddCycle: T[] };
+
+/**
+ * The result of `Unidirected.labelPropagation` and `Unidirected.louvain`.
+ */
+export type CommunityResult = {
+  /**
+   * Maps each node key to its community. Communities are numbered from 0 in the order
+   * of their earliest-added node.
+   */
+  partition: Map<NodeKey, number>;
+  /** The modularity of the partition, between -0.5 and 1. Higher means denser communities. */
+  modularity: number;
+};
+
+/**
+ * Options shared by the community detection methods of `Unidirected`.
+ */
+export type CommunityOptions = {
+  /**
+   * Seeds the random visiting order and tie-breaking, so that runs with the same seed
+   * return the same partition. Defaults to using `Math.random`.
+   */
+  seed?: number;
+  /**
+   * Values above 1 favour smaller communities, values below 1 larger ones. Defaults to 1.
+   */
+  resolution?: number;
+};
+
+/**
+ * One local-moving phase of the Louvain method. Starting from singleton communities, nodes are
+ * visited in random order and moved to the neighbouring community with the largest modularity
+ * gain, until a full round moves no node.
+ * @param links For each node, a Map from neighbour position to total edge weight.
+ * @param resolution Scales the expected share of edge weight inside communities.
+ * @param random The random number source used to shuffle the visiting order.
+ * @returns The community of each node, numbered from 0 in order of first appearance.
+ */
+function louvainPass(
+  links: Map<number, number>[],
+  resolution: number,
+  random: RandomSource,
+): number[] {
+  const degree = links.map((neighbors) =>
+    [...neighbors.values()].reduce((sum, weight) => sum + weight, 0)
+  );
+  const twiceWeight = degree.reduce((sum, weight) => sum + weight, 0);
+  const community = links.map((_, i) => i);
+  const total = degree.slice();
+  const order = community.slice();
+
+  let moved = twiceWeight > 0;
+  while (moved) {
+    moved = false;
+    for (const node of shuffle(order, random)) {
+      const weights: Map<number, number> = new Map();
+      for (const [neighbor, weight] of links[node]) {
+        if (neighbor === node) continue;
+        const target = community[neighbor];
+        weights.set(target, (weights.get(target) ?? 0) + weight);
+      }
+
+      // Take the node out, then put it back where the gain is largest
+      const current = community[node];
+      total[current] -= degree[node];
+      const gain = (target: number) =>
+        (weights.get(target) ?? 0) -
+        (resolution * total[target] * degree[node]) / twiceWeight;
+      let best = current;
+      let bestGain = gain(current);
+      for (const target of weights.keys()) {
+        const candidate = gain(target);
+        if (candidate > bestGain + 1e-12) {
+          best = target;
+          bestGain = candidate;
+        }
+      }
+      total[best] += degree[node];
+      if (best !== current) {
+        community[node] = best;
+        moved = true;
+      }
+    }
+  }
+
+  const numbers: Map<number, number> = new Map();
+  return community.map((label) => {
+    if (!numbers.has(label)) numbers.set(label, numbers.size);
+    return numbers.get(label)!;
+  });
+}
+
+/**
+ * Hungarian algorithm (Kuhn-Munkres with potentials) for a dense rows x columns cost matrix.
+ * Requires rows <= columns; every row is assigned to a distinct column.
+ * @param rows The number of rows.
+ * @param columns The number of columns.
+ * @param costAt Returns the finite cost of assigning a row to a column.
+ * @returns For each row, the index of its assigned column.
+ */
+function hungarian(
+  rows: number,
+  columns: number,
+  costAt: (row: number, column: number) => number,
+): number[] {
+  // 1-indexed arrays; column 0 is a virtual column used to seed each phase
+  const rowPotential: number[] = new Array(rows + 1).fill(0);
+  const columnPotential: number[] = new Array(columns + 1).fill(0);
+  const rowOf: number[] = new Array(columns + 1).fill(0);
+  const way: number[] = new Array(columns + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    rowOf[0] = row;
+    let column = 0;
+    const minSlack: number[] = new Array(columns + 1).fill(Infinity);
+    const used: boolean[] = new Array(columns + 1).fill(false);
+
+    do {
+      used[column] = true;
+      const current = rowOf[column];
+      let delta = Infinity;
+      let nextColumn = 0;
+      for (let j = 1; j <= columns; j++) {
+        if (used[j]) continue;
+        const slack = costAt(current - 1, j - 1) - rowPotential[current] -
+          columnPotential[j];
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack;
+          way[j] = column;
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j];
+          nextColumn = j;
+        }
+      }
+      for (let j = 0; j <= columns; j++) {
+        if (used[j]) {
+          rowPotential[rowOf[j]] += delta;
+          columnPotential[j] -= delta;
+        } else {
+          minSlack[j] -= delta;
+        }
+      }
+      column = nextColumn;
+    } while (rowOf[column] !== 0);
+
+    // Flip the alternating path that ends at the newly reached free column
+    do {
+      const previous = way[column];
+      rowOf[column] = rowOf[previous];
+      column = previous;
+    } while (column !== 0);
+  }
+
+  const assigned: number[] = new Array(rows).fill(-1);
+  for (let j = 1; j <= columns; j++) {
+    if (rowOf[j] !== 0) assigned[rowOf[j] - 1] = j - 1;
+  }
+  return assigned;
+}
+
+/**
+ * The current version of the `GraphJSON` schema.
+ */
+const GRAPH_JSON_VERSION = 1;
+
+/**
+ * The JSON representation of a graph produced by `toJSON` and read by `fromJSON`.
+ *
+ * Schema (version 1):
+ * - `version`: always `1`; bumped whenever the layout changes incompatibly.
+ * - `directed`: `true` for `Directed` graphs, `false` for `Unidirected` graphs.
+ * - `nodes`: the full node records, in insertion order. Each must have a numeric `value`.
+ * - `edges`: `{ from, to, weight? }` objects referencing nodes by key (`value` unless the
+ *   graph was built with a custom `keyOf`). Unidirected
+ *   edges are listed once; `weight` is omitted for unweighted edges.
+ *
+ * @template T The type of data stored in the graph nodes.
+ */
+export type GraphJSON<T> = {
+  /** The schema version. */
+  version: 1;
+  /** Whether the edges are directed. */
+  directed: boolean;
+  /** The node records, in insertion order. */
+  nodes: T[];
+  /**
+   * The edges, referencing nodes by their key (see `keyOf`). The label and attributes
+   * are only present when set.
+   */
+  edges: {
+    from: NodeKey;
+    to: NodeKey;
+    weight?: number;
+    label?: string;
+    attributes?: EdgeAttributes;
+  }[];
+};
+
+/**
+ * Options for reading and writing delimited edge lists (CSV, TSV, ...).
+ * Each row holds `from`, `to` and an optional `weight`, with nodes identified by their key
+ * (see `GraphOptions.keyOf`).
+ */
+export type EdgeListOptions = {
+  /** The field separator, e.g. `","` for CSV or `"\t"` for TSV. Defaults to `","`. */
+  delimiter?: string;
+  /**
+   * Whether the first row is a header. When writing, defaults to `true`.
+   * When reading, defaults to detecting a non-numeric first field.
+   */
+  header?: boolean;
+};
+
+/**
+ * Options for `toDOT`.
+ * @template T The type of data stored in the graph nodes.
+ */
+export type DotOptions<T> = {
+  /** The graph name written in the header. Defaults to `"G"`. */
+  name?: string;
+  /** Returns the label shown for a node. By default Graphviz shows the node ID (its `value`). */
+  nodeLabel?: (data: T) => string;
+  /** A sequence of nodes to highlight, together with the edges between consecutive nodes. */
+  highlightPath?: T[];
+  /** Additional edges to highlight. */
+  highlightEdges?: { from: T; to: T }[];
+  /** The color used for highlighted nodes and edges. Defaults to `"red"`. */
+  highlightColor?: string;
+};
+
+/**
+ * Residual capacities below this value are treated as zero to absorb floating-point noise.
+ */
+const FLOW_EPSILON = 1e-9;
+
+/**
+ * A residual network over integer node indices, used by `Directed.maxFlow`.
+ * Arcs are stored in pairs: arc `i` and its reverse `i ^ 1`.
+ */
+class FlowNetwork {
+  /** Outgoing arc indices for each node. */
+  private outgoing: number[][];
+  /** Target node of each arc. */
+  private target: number[] = [];
+  /** Remaining capacity of each arc. */
+  private residual: number[] = [];
+
+  /**
+   * @param size The number of nodes in the network.
+   */
+  constructor(size: number) {
+    this.outgoing = Array.from({ length: size }, () => []);
+  }
+
+  /**
+   * Adds an arc and its zero-capacity reverse arc.
+   * @returns The index of the forward arc.
+   */
+  addArc(from: number, to: number, capacity: number): number {
+    const arc = this.target.length;
+    this.outgoing[from].push(arc);
+    this.target.push(to);
+    this.residual.push(capacity);
+    this.outgoing[to].push(arc + 1);
+    this.target.push(from);
+    this.residual.push(0);
+    return arc;
+  }
+
+  /**
+   * Returns the flow currently pushed through a forward arc: the residual capacity of its
+   * reverse arc, which grows by exactly the flow pushed. Unlike `capacity - residual`, this
+   * stays finite for uncapped (`Infinity`) arcs.
+   */
+  flowOn(arc: number): number {
+    return Math.max(0, this.residual[arc ^ 1]);
+  }
+
+  /**
+   * Marks the nodes reachable from `start` through arcs with remaining capacity.
+   */
+  reachableFrom(start: number): boolean[] {
+    const seen = new Array(this.outgoing.length).fill(false);
+    const queue = [start];
+    seen[start] = true;
+    for (let head = 0; head < queue.length; head++) {
+      for (const arc of this.outgoing[queue[head]]) {
+        const next = this.target[arc];
+        if (!seen[next] && this.residual[arc] > FLOW_EPSILON) {
+          seen[next] = true;
+          queue.push(next);
+        }
+      }
+    }
+    return seen;
+  }
+
   /**
-   * Use a Map for adjacency list: maps source node data to a list of outgoing edges.
-   * The key is the source node's data, and the value is an array of `GraphEdge` objects.
+   * Edmonds-Karp: repeatedly augments along the shortest residual path found by BFS.
+   * @returns The maximum flow value.
    */
-  protected adjacencyList: Map<T, GraphEdge<T>[]>;
+  edmondsKarp(source: number, sink: number): number {
+    let total = 0;
+    while (true) {
+      // BFS recording the arc used to reach each node
+      const via: number[] = new Array(this.outgoing.length).fill(-1);
+      const queue = [source];
+      const seen = new Array(this.outgoing.length).fill(false);
+      seen[source] = true;
+      for (let head = 0; head < queue.length && !seen[sink]; head++) {
+        for (const arc of this.outgoing[queue[head]]) {
+          const next = this.target[arc];
+          if (!seen[next] && this.residual[arc] > FLOW_EPSILON) {
+            seen[next] = true;
+            via[next] = arc;
+            queue.push(next);
+          }
+        }
+      }
+      if (!seen[sink]) return total;
+
+      let bottleneck = Infinity;
+      for (
+        let node = sink;
+        node !== source;
+        node = this.target[via[node] ^ 1]
+      ) {
+        bottleneck = Math.min(bottleneck, this.residual[via[node]]);
+      }
+      for (
+        let node = sink;
+        node !== source;
+        node = this.target[via[node] ^ 1]
+      ) {
+        this.residual[via[node]] -= bottleneck;
+        this.residual[via[node] ^ 1] += bottleneck;
+      }
+      total += bottleneck;
+    }
+  }
+
+  /**
+   * Dinic: builds a BFS level graph and saturates it with blocking flows.
+   * The blocking-flow search is iterative to avoid deep recursion.
+   * @returns The maximum flow value.
+   */
+  dinic(source: number, sink: number): number {
+    const size = this.outgoing.length;
+    let total = 0;
+
+    while (true) {
+      const level: number[] = new Array(size).fill(-1);
+      level[source] = 0;
+      const queue = [source];
+      for (let head = 0; head < queue.length; head++) {
+        const node = queue[head];
+        for (const arc of this.outgoing[node]) {
+          const next = this.target[arc];
+          if (level[next] === -1 && this.residual[arc] > FLOW_EPSILON) {
+            level[next] = level[node] + 1;
+            queue.push(next);
+          }
+        }
+      }
+      if (level[sink] === -1) return total;
+
+      // Per-node pointer to the next arc worth trying in this phase
+      const next: number[] = new Array(size).fill(0);
+      const path: number[] = [];
+      let node = source;
+
+      while (true) {
+        if (node === sink) {
+          let bottleneck = Infinity;
+          for (const arc of path) {
+            bottleneck = Math.min(bottleneck, this.residual[arc]);
+          }
+          for (const arc of path) {
+            this.residual[arc] -= bottleneck;
+            this.residual[arc ^ 1] += bottleneck;
+          }
+          total += bottleneck;
+          path.length = 0;
+          node = source;
+          continue;
+        }
+
+        const arcs = this.outgoing[node];
+        let advanced = false;
+        while (next[node] < arcs.length) {
+          const arc = arcs[next[node]];
+          const to = this.target[arc];
+          if (
+            this.residual[arc] > FLOW_EPSILON && level[to] === level[node] + 1
+          ) {
+            path.push(arc);
+            node = to;
+            advanced = true;
+            break;
+          }
+          next[node]++;
+        }
+        if (advanced) continue;
+
+        // Dead end: prune this node from the level graph and retreat
+        if (node === source) break;
+        level[node] = -1;
+        const arc = path.pop()!;
+        node = this.target[arc ^ 1];
+        next[node]++;
+      }
+    }
+  }
+}
+
+/**
+ * Provides common methods and properties for graph implementations (Directed and Unidirected).
+ * It manages the nodes and the adjacency list.
+ */
+export class CommonGraphMethods<T extends DataShapeWithValue> {
+  /**
+   * Use a Map for adjacency list: maps the key of each source node to a list of outgoing edges.
+   * The key is the source node's key (see `keyOf`), and the value is an array of `GraphEdge` objects.
+   */
+  protected adjacencyList: Map<NodeKey, GraphEdge<T>[]>;
+  /**
+   * A map to quickly look up node data by its key.
+   */
+  protected nodeMap: Map<NodeKey, T>;
+  /**
+   * Keep track of all nodes added to the graph.
+   */
+  protected nodes: T[];
+  /**
+   * Derives the identity of a node. Every lookup, visited set and result map uses this key,
+   * so two objects with the same key are the same node.
+   */
+  readonly keyOf: (data: T) => NodeKey;
+  /**
+   * Whether failures throw a `GraphError` instead of being logged.
+   */
+  readonly strict: boolean;
+  /**
+   * Receives informational messages and, outside of strict mode, failures.
+   */
+  protected logger: GraphLogger;
+  /**
+   * Whether parallel edges are kept, see `GraphOptions.multigraph`.
+   */
+  readonly multigraph: boolean;
+  /**
+   * How duplicate edges are handled when `multigraph` is `false`, see `GraphOptions.duplicateEdges`.
+   */
+  readonly duplicateEdges: "reject" | "merge";
+  /**
+   * Whether self-loops are accepted, see `GraphOptions.selfLoops`.
+   */
+  readonly selfLoops: "allow" | "reject";
+  /**
+   * The ID given to the next edge added to the graph.
+   */
+  private nextEdgeId: number;
+  /**
+   * The registered event listeners, by event name.
+   */
+  private listeners: {
+    [E in keyof GraphEventMap<T>]: ((payload: GraphEventMap<T>[E]) => void)[];
+  };
+
+  /**
+   * Constructs a new CommonGraphMethods instance, initializing the adjacency list and nodes array.
+   * @param options Optional graph options, see `GraphOptions`.
+   */
+  constructor(options: GraphOptions<T> = {}) {
+    this.adjacencyList = new Map();
+    this.nodeMap = new Map();
+    this.nodes = [];
+    this.keyOf = options.keyOf ?? ((data) => data.value);
+    this.strict = options.strict ?? false;
+    this.logger = options.logger ?? defaultLogger;
+    this.multigraph = options.multigraph ?? true;
+    this.duplicateEdges = options.duplicateEdges ?? "reject";
+    this.selfLoops = options.selfLoops ?? "allow";
+    this.nextEdgeId = 0;
+    this.listeners = {
+      nodeAdded: [],
+      nodeRemoved: [],
+      edgeAdded: [],
+      edgeRemoved: [],
+    };
+  }
+
+  /**
+   * Whether edges have a direction. `Directed` overrides this to return `true`; the helpers
+   * shared by both graph kinds use it where the two behave differently.
+   */
+  protected get directed(): boolean {
+    return false;
+  }
+
+  /**
+   * Registers a listener called after a node is added.
+   * @param listener Receives the data of the new node.
+   * @returns A function that unregisters the listener.
+   */
+  onNodeAdded(listener: (node: T) => void): () => void {
+    return this.subscribe("nodeAdded", listener);
+  }
+
+  /**
+   * Registers a listener called after a node is removed.
+   * The edges removed along with the node are reported to `onEdgeRemoved` first.
+   * @param listener Receives the data of the removed node.
+   * @returns A function that unregisters the listener.
+   */
+  onNodeRemoved(listener: (node: T) => void): () => void {
+    return this.subscribe("nodeRemoved", listener);
+  }
+
+  /**
+   * Registers a listener called after an edge is added.
+   * @param listener Receives the endpoints and weight of the new edge.
+   * @returns A function that unregisters the listener.
+   */
+  onEdgeAdded(listener: (edge: EdgeEvent<T>) => void): () => void {
+    return this.subscribe("edgeAdded", listener);
+  }
+
+  /**
+   * Registers a listener called after an edge is removed, once for each removed edge
+   * (once per unidirected edge). Every removal path is reported: `removeEdge`, `removeEdgeById`,
+   * and `removeNode` for each edge it drops, so the listener alone can track the live edges.
+   * @param listener Receives the endpoints, weight and ID of the removed edge.
+   * @returns A function that unregisters the listener.
+   */
+  onEdgeRemoved(listener: (edge: EdgeEvent<T>) => void): () => void {
+    return this.subscribe("edgeRemoved", listener);
+  }
+
+  /**
+   * Adds a node to the graph if no node with the same key exists yet.
+   * @param data The data for the new node. Must implement `DataShapeWithValue`.
+   */
+  addNode(data: T): void {
+    const key = this.keyOf(data);
+    if (!this.adjacencyList.has(key)) {
+      this.adjacencyList.set(key, []);
+      this.nodeMap.set(key, data); // Map key to node object
+      this.nodes.push(data);
+      this.logger.info(`Added node with data: ${key}`);
+      this.emit("nodeAdded", data);
+    }
+  }
+
+  /**
+   * Checks if a node with the given data exists in the graph.
+   * @param data The data of the node to check for existence. Must implement `DataShapeWithValue`.
+   * @returns true if the node exists, false otherwise.
+   */
+  hasNode(data: T): boolean {
+    return this.adjacencyList.has(this.keyOf(data));
+  }
+
+  /**
+   * Looks up the stored data of a node by its key.
+   * @param key The key of the node, as returned by `keyOf`.
+   * @returns The node data, or `undefined` if no node has that key.
+   */
+  getNodeByKey(key: NodeKey): T | undefined {
+    return this.nodeMap.get(key);
+  }
+
+  /**
+   * Gets all nodes currently in the graph.
+   * @returns An array containing the data of all nodes in the graph.
+   */
+  getNodes(): T[] {
+    return this.nodes;
+  }
+
+  /**
+   * Gets the outgoing edges (neighbors) for a given node.
+   * @param data The data of the source node. Must implement `DataShapeWithValue`.
+   * @returns An array of `GraphEdge` objects representing the outgoing edges, or `undefined` if the node is not found.
+   */
+  getNeighbors(data: T): GraphEdge<T>[] | undefined {
+    return this.adjacencyList.get(this.keyOf(data));
+  }
+
+  /**
+   * Removes a node and every edge that starts or ends at it. An `edgeRemoved` event is
+   * emitted for each of those edges (once per unidirected edge), then a `nodeRemoved` event.
+   * @param data The data of the node to remove. Must implement `DataShapeWithValue`.
+   * @returns `true` if the node was removed, `false` if it was not in the graph.
+   */
+  removeNode(data: T): boolean {
+    if (!this.hasNode(data)) return false;
+
+    const key = this.keyOf(data);
+    const node = this.nodeMap.get(key)!;
+    const incident = this.edgeEntries(this.directed).filter(({ from, edge }) =>
+      this.keyOf(from) === key || this.keyOf(edge.target) === key
+    );
+    this.nodes.splice(this.nodes.indexOf(node), 1);
+    this.adjacencyList.delete(key);
+    this.nodeMap.delete(key);
+
+    // Drop incoming edges (and, for unidirected graphs, the mirrored halves)
+    for (const [source, edges] of this.adjacencyList) {
+      if (edges.some((edge) => this.keyOf(edge.target) === key)) {
+        this.adjacencyList.set(
+          source,
+          edges.filter((edge) => this.keyOf(edge.target) !== key),
+        );
+      }
+    }
+    for (const { from, edge } of incident) {
+      this.emit("edgeRemoved", this.edgeEvent(from, edge));
+    }
+    this.emit("nodeRemoved", node);
+    return true;
+  }
+
+  /**
+   * Checks if there is an edge from one node to another.
+   * For unidirected graphs the order of the nodes does not matter.
+   * @param from The data of the source node. Must implement `DataShapeWithValue`.
+   * @param to The data of the target node. Must implement `DataShapeWithValue`.
+   * @returns `true` if at least one such edge exists, `false` otherwise.
+   */
+  hasEdge(from: T, to: T): boolean {
+    return this.getEdge(from, to) !== undefined;
+  }
+
+  /**
+   * Gets the edge from one node to another.
+   * If there are several parallel edges, the first one added is returned.
+   * @param from The data of the source node. Must implement `DataShapeWithValue`.
+   * @param to The data of the target node. Must implement `DataShapeWithValue`.
+   * @returns The `GraphEdge` leaving `from` towards `to`, or `undefined` if there is none.
+   */
+  getEdge(from: T, to: T): GraphEdge<T> | undefined {
+    return this.adjacencyList
+      .get(this.keyOf(from))
+      ?.find((edge) => this.keyOf(edge.target) === this.keyOf(to));
+  }
+
+  /**
+   * Gets every edge from one node to another, including parallel edges.
+   * @param from The data of the source node. Must implement `DataShapeWithValue`.
+   * @param to The data of the target node. Must implement `DataShapeWithValue`.
+   * @returns The edges leaving `from` towards `to` in the order they were added, or an empty array if there are none.
+   */
+  getEdges(from: T, to: T): GraphEdge<T>[] {
+    return (this.adjacencyList.get(this.keyOf(from)) ?? []).filter((edge) =>
+      this.keyOf(edge.target) === this.keyOf(to)
+    );
+  }
+
+  /**
+   * Finds an edge by its ID. Runs in O(E).
+   * @param id The ID of the edge, as found on a `GraphEdge` or an `EdgeEvent`.
+   * @returns The edge and its source node, or `undefined` if no edge has that ID.
+   *          Unidirected edges are returned from the earlier-added of their nodes.
+   */
+  getEdgeById(id: number): { from: T; edge: GraphEdge<T> } | undefined {
+    for (const node of this.nodes) {
+      const edge = this.adjacencyList.get(this.keyOf(node))!.find((edge) =>
+        edge.id === id
+      );
+      if (edge) return { from: node, edge };
+    }
+    return undefined;
+  }
+
+  /**
+   * Removes a single edge by its ID, leaving any parallel edges in place.
+   * Unidirected edges are removed in both directions. Runs in O(E).
+   * @param id The ID of the edge, as found on a `GraphEdge` or an `EdgeEvent`.
+   * @returns `true` if the edge was removed, `false` if no edge has that ID.
+   */
+  removeEdgeById(id: number): boolean {
+    const found = this.getEdgeById(id);
+    if (!found) return false;
+
+    for (const [key, edges] of this.adjacencyList) {
+      if (edges.some((edge) => edge.id === id)) {
+        this.adjacencyList.set(key, edges.filter((edge) => edge.id !== id));
+      }
+    }
+    this.logger.info(`Removed edge ${id}`);
+    this.emit("edgeRemoved", this.edgeEvent(found.from, found.edge));
+    return true;
+  }
+
+  /**
+   * Counts the outgoing edges of a node.
+   * For unidirected graphs this equals the node's degree.
+   * @param data The data of the node. Must implement `DataShapeWithValue`.
+   * @returns The number of edges leaving the node, or `undefined` if the node is not found.
+   */
+  outDegree(data: T): number | undefined {
+    return this.adjacencyList.get(this.keyOf(data))?.length;
+  }
+
+  /**
+   * Counts the incoming edges of a node. Runs in O(E).
+   * For unidirected graphs this equals the node's degree.
+   * @param data The data of the node. Must implement `DataShapeWithValue`.
+   * @returns The number of edges arriving at the node, or `undefined` if the node is not found.
+   */
+  inDegree(data: T): number | undefined {
+    if (!this.hasNode(data)) return undefined;
+
+    let count = 0;
+    for (const edges of this.adjacencyList.values()) {
+      for (const edge of edges) {
+        if (this.keyOf(edge.target) === this.keyOf(data)) count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Creates an independent copy of the graph, with the same options, nodes, edges and edge IDs.
+   * Node data is shared; edges and their attribute records are copied.
+   * @returns A new graph of the same class.
+   */
+  clone(): this {
+    return this.derive(() => true);
+  }
+
+  /**
+   * Creates the subgraph induced by a set of nodes: those nodes and every edge between them.
+   * @param nodes The nodes to keep. Nodes that are not in the graph are ignored.
+   * @returns A new graph of the same class, with nodes in their original insertion order.
+   */
+  subgraph(nodes: Iterable<T>): this {
+    const keys = new Set([...nodes].map((node) => this.keyOf(node)));
+    return this.derive((node) => keys.has(this.keyOf(node)));
+  }
+
+  /**
+   * Creates the subgraph induced by the nodes matching a predicate.
+   * @param predicate Called once per node; return `true` to keep the node.
+   * @returns A new graph of the same class, with the kept nodes and the edges between them.
+   */
+  filterNodes(predicate: (node: T) => boolean): this {
+    return this.derive(predicate);
+  }
+
+  /**
+   * Creates a copy of the graph that keeps every node but only the edges matching a predicate.
+   * @param predicate Called once per edge with its source node; return `true` to keep the edge.
+   *                  Unidirected edges are passed from their earlier-added node.
+   * @returns A new graph of the same class.
+   */
+  filterEdges(predicate: (from: T, edge: GraphEdge<T>) => boolean): this {
+    const kept = new Set(
+      this.edgeEntries(this.directed)
+        .filter(({ from, edge }) => predicate(from, edge))
+        .map(({ edge }) => edge.id),
+    );
+    return this.derive(() => true, (_from, edge) => kept.has(edge.id));
+  }
+
+  /**
+   * Combines this graph with another one of the same kind. The result holds the nodes of both
+   * graphs and every edge of this graph, plus the edges of `other` between nodes that this graph
+   * does not already join (in the same direction, for directed graphs).
+   * Where both graphs hold a node with the same key, this graph's node data is used.
+   * Edges taken from `other` follow this graph's edge policies: when `multigraph` is `false`,
+   * parallel edges of `other` are merged into one if `duplicateEdges` is `"merge"` and otherwise
+   * only the first is kept, and self-loops are skipped if `selfLoops` is `"reject"`.
+   * @param other The graph to combine with.
+   * @returns A new graph of the same class and options as this one. Edges taken from `other` get new IDs.
+   */
+  union(other: this): this {
+    const merged = this.derive(() => true);
+    for (const node of other.nodes) {
+      if (!merged.hasNode(node)) merged.addNode(node);
+    }
+
+    for (const { from, edge } of other.edgeEntries(this.directed)) {
+      const to = edge.target;
+      if (this.hasEdge(from, to)) continue;
+      if (
+        merged.selfLoops === "reject" && this.keyOf(from) === this.keyOf(to)
+      ) {
+        continue;
+      }
+      if (
+        !merged.multigraph && merged.duplicateEdges === "reject" &&
+        merged.hasEdge(from, to)
+      ) continue;
+      merged.insertEdge(
+        this.directed,
+        from,
+        to,
+        edge.weight,
+        { label: edge.label, attributes: edge.attributes },
+        `Added edge from ${this.keyOf(from)} to ${this.keyOf(to)} in union`,
+      );
+    }
+    return merged;
+  }
+
+  /**
+   * Keeps what this graph has in common with another one of the same kind: the nodes present in
+   * both, and the edges of this graph between nodes that `other` also joins (in the same direction,
+   * for directed graphs). Weights, labels and attributes are taken from this graph.
+   * @param other The graph to intersect with.
+   * @returns A new graph of the same class and options as this one.
+   */
+  intersection(other: this): this {
+    return this.derive(
+      (node) => other.hasNode(node),
+      (from, edge) => other.hasEdge(from, edge.target),
+    );
+  }
+
+  /**
+   * Creates a unidirected copy of the graph with the same options. Each directed edge becomes a
+   * unidirected edge with the same ID, weight, label and attributes, so a pair of opposite edges
+   * becomes two parallel edges, unless `multigraph` is `false`, in which case the first is kept.
+   * For a unidirected graph this is the same as `clone`.
+   * @returns A new `Unidirected` graph.
+   */
+  toUndirected(): Unidirected<T> {
+    const graph = new Unidirected<T>(this.graphOptions());
+    for (const node of this.nodes) graph.addNode(node);
+    graph.nextEdgeId = this.nextEdgeId;
+    if (!this.directed) return this.copyEdgesInto(graph);
+
+    for (const { from, edge } of this.edgeEntries(true)) {
+      if (!this.multigraph && graph.hasEdge(from, edge.target)) continue;
+      const attributes = { ...edge.attributes };
+      this.copyArc(graph, from, edge.target, edge, edge.id, attributes);
+      this.copyArc(graph, edge.target, from, edge, edge.id, attributes);
+    }
+    return graph;
+  }
+
+  /**
+   * Lists every edge of the graph once, in node insertion order.
+   * Unidirected edges are stored in both adjacency lists, so only the copy leaving
+   * the earlier-added node is kept (and every other copy of a self-loop).
+   * @param directed Whether the graph is directed.
+   * @returns The edges, each paired with its source node.
+   */
+  protected edgeEntries(directed: boolean): { from: T; edge: GraphEdge<T> }[] {
+    const order: Map<NodeKey, number> = new Map();
+    this.nodes.forEach((node, i) => order.set(this.keyOf(node), i));
+
+    const entries: { from: T; edge: GraphEdge<T> }[] = [];
+    for (const node of this.nodes) {
+      let selfLoops = 0;
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        if (!directed) {
+          const from = order.get(this.keyOf(node))!;
+          const to = order.get(this.keyOf(edge.target))!;
+          if (from > to || (from === to && selfLoops++ % 2 === 1)) continue;
+        }
+        entries.push({ from: node, edge });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Builds the versioned JSON representation of the graph. Shared by `Directed.toJSON` and `Unidirected.toJSON`.
+   * @param directed Whether the graph is directed.
+   * @returns The graph as a `GraphJSON` object.
+   */
+  protected serializeJSON(directed: boolean): GraphJSON<T> {
+    return {
+      version: GRAPH_JSON_VERSION,
+      directed,
+      nodes: [...this.nodes],
+      edges: this.edgeEntries(directed).map(({ from, edge }) => ({
+        from: this.keyOf(from),
+        to: this.keyOf(edge.target),
+        ...(edge.weight === undefined ? {} : { weight: edge.weight }),
+        ...(edge.label === undefined ? {} : { label: edge.label }),
+        ...(Object.keys(edge.attributes).length === 0
+          ? {}
+          : { attributes: { ...edge.attributes } }),
+      })),
+    };
+  }
+
+  /**
+   * Writes the graph as a delimited edge list with one `from, to, weight` row per edge.
+   * Shared by `Directed.toEdgeList` and `Unidirected.toEdgeList`.
+   * @param directed Whether the graph is directed.
+   * @param options Formatting options, see `EdgeListOptions`.
+   * @returns The edge list text.
+   */
+  protected writeEdgeList(directed: boolean, options: EdgeListOptions): string {
+    const delimiter = options.delimiter ?? ",";
+    const rows: string[] = [];
+    if (options.header ?? true) {
+      rows.push(["from", "to", "weight"].join(delimiter));
+    }
+    for (const { from, edge } of this.edgeEntries(directed)) {
+      rows.push(
+        [this.keyOf(from), this.keyOf(edge.target), edge.weight ?? ""].join(
+          delimiter,
+        ),
+      );
+    }
+    return rows.join("\n") + "\n";
+  }
+
+  /**
+   * Renders the graph as a Graphviz DOT document. Shared by `Directed.toDOT` and `Unidirected.toDOT`.
+   * Node IDs are the node keys; edge weights become edge labels.
+   * @param directed Whether to emit `digraph` syntax with `->` edges, or `graph` syntax with `--` edges.
+   * @param options Rendering options, see `DotOptions`.
+   * @returns The DOT document.
+   */
+  protected renderDOT(directed: boolean, options: DotOptions<T>): string {
+    const color = options.highlightColor ?? "red";
+    const highlightedNodes = new Set(
+      (options.highlightPath ?? []).map((node) => this.keyOf(node)),
+    );
+    const highlightedEdges: Set<string> = new Set();
+    const highlight = (from: T, to: T) => {
+      highlightedEdges.add(`${this.keyOf(from)}->${this.keyOf(to)}`);
+      if (!directed) {
+        highlightedEdges.add(`${this.keyOf(to)}->${this.keyOf(from)}`);
+      }
+    };
+    const path = options.highlightPath ?? [];
+    for (let i = 0; i + 1 < path.length; i++) {
+      highlight(path[i], path[i + 1]);
+    }
+    for (const { from, to } of options.highlightEdges ?? []) {
+      highlight(from, to);
+    }
+
+    const lines = [
+      `${directed ? "digraph" : "graph"} ${quoteDOT(options.name ?? "G")} {`,
+    ];
+    for (const node of this.nodes) {
+      const attributes: DotAttributes = {};
+      if (options.nodeLabel) attributes.label = options.nodeLabel(node);
+      if (highlightedNodes.has(this.keyOf(node))) attributes.color = color;
+      lines.push(
+        `  ${quoteDOT(String(this.keyOf(node)))}${
+          formatAttributesDOT(attributes)
+        };`,
+      );
+    }
+
+    const operator = directed ? "->" : "--";
+    for (const { from, edge } of this.edgeEntries(directed)) {
+      const attributes: DotAttributes = {};
+      if (edge.weight !== undefined) attributes.label = String(edge.weight);
+      if (
+        highlightedEdges.has(`${this.keyOf(from)}->${this.keyOf(edge.target)}`)
+      ) {
+        attributes.color = color;
+        attributes.penwidth = "2";
+      }
+      lines.push(
+        `  ${quoteDOT(String(this.keyOf(from)))} ${operator} ${
+          quoteDOT(String(this.keyOf(edge.target)))
+        }${formatAttributesDOT(attributes)};`,
+      );
+    }
+    lines.push("}");
+
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Removes every edge stored in `from`'s adjacency list that points to `to`.
+   * @param from The data of the source node.
+   * @param to The data of the target node.
+   * @returns The removed edges.
+   */
+  protected removeArcs(from: T, to: T): GraphEdge<T>[] {
+    const edges = this.adjacencyList.get(this.keyOf(from));
+    if (!edges) return [];
+
+    const removed: GraphEdge<T>[] = [];
+    const remaining: GraphEdge<T>[] = [];
+    for (const edge of edges) {
+      if (this.keyOf(edge.target) === this.keyOf(to)) {
+        removed.push(edge);
+      } else {
+        remaining.push(edge);
+      }
+    }
+    this.adjacencyList.set(this.keyOf(from), remaining);
+    return removed;
+  }
+
+  /**
+   * Adds an edge between two existing nodes, applying the `selfLoops`, `multigraph` and
+   * `duplicateEdges` policies. Shared by the `addEdge` and `addWeightedEdge` methods.
+   * @param directed Whether to store the edge in `from`'s adjacency list only, or in both lists.
+   * @param from The data of the source node.
+   * @param to The data of the target node.
+   * @param weight The weight of the edge, or `undefined` for an unweighted edge.
+   * @param options The label and attributes of the edge.
+   * @param message The message logged once the edge is added.
+   * @returns The new edge leaving `from`, the existing edge if the new one was merged into it,
+   *          or `undefined` if it was rejected.
+   */
+  protected insertEdge(
+    directed: boolean,
+    from: T,
+    to: T,
+    weight: number | undefined,
+    options: EdgeOptions,
+    message: string,
+  ): GraphEdge<T> | undefined {
+    if (this.selfLoops === "reject" && this.keyOf(from) === this.keyOf(to)) {
+      return this.fail(new SelfLoopError(this.keyOf(from)), undefined);
+    }
+
+    const existing = this.multigraph ? undefined : this.getEdge(from, to);
+    if (existing) {
+      if (this.duplicateEdges === "reject") {
+        return this.fail(
+          new DuplicateEdgeError(this.keyOf(from), this.keyOf(to)),
+          undefined,
+        );
+      }
+      // Both copies of a unidirected edge share their attributes but not their fields
+      const copies = directed ? [existing] : [
+        ...this.getEdges(from, to),
+        ...this.getEdges(to, from),
+      ].filter((edge) => edge.id === existing.id);
+      for (const edge of copies) {
+        if (weight !== undefined) edge.weight = weight;
+        if (options.label !== undefined) edge.label = options.label;
+      }
+      Object.assign(existing.attributes, options.attributes);
+      this.logger.info(`Merged duplicate edge ${existing.id}`);
+      return existing;
+    }
+
+    // Store the graph's own node objects, even if equal copies were passed in
+    const source = this.nodeMap.get(this.keyOf(from))!;
+    const target = this.nodeMap.get(this.keyOf(to))!;
+    const id = this.nextEdgeId++;
+    const attributes = { ...options.attributes };
+    const edge = new GraphEdge(target, weight, id, options.label, attributes);
+    this.adjacencyList.get(this.keyOf(from))!.push(edge);
+    if (!directed) {
+      this.adjacencyList.get(this.keyOf(to))!.push(
+        new GraphEdge(source, weight, id, options.label, attributes),
+      );
+    }
+    this.logger.info(message);
+    this.emit("edgeAdded", this.edgeEvent(source, edge));
+    return edge;
+  }
+
+  /**
+   * Collects the options this graph was created with, for creating derived graphs.
+   * @returns The graph options, see `GraphOptions`.
+   */
+  protected graphOptions(): GraphOptions<T> {
+    return {
+      keyOf: this.keyOf,
+      strict: this.strict,
+      logger: this.logger,
+      multigraph: this.multigraph,
+      duplicateEdges: this.duplicateEdges,
+      selfLoops: this.selfLoops,
+    };
+  }
+
+  /**
+   * Creates a graph of the same class and options that holds the given nodes but no edges.
+   * Its edge IDs continue after this graph's, so copied edges can keep their IDs.
+   * @param nodes The nodes to add.
+   * @returns The new graph.
+   */
+  protected emptyCopy(nodes: Iterable<T>): this {
+    const Graph = this.constructor as new (options: GraphOptions<T>) => this;
+    const copy = new Graph(this.graphOptions());
+    for (const node of nodes) copy.addNode(node);
+    copy.nextEdgeId = this.nextEdgeId;
+    return copy;
+  }
+
+  /**
+   * Appends a copy of an edge to another graph's adjacency list, without applying the
+   * edge policies or emitting events. Both nodes must already be in that graph.
+   * @param graph The graph receiving the edge.
+   * @param from The node whose adjacency list receives the edge.
+   * @param to The target node of the copy.
+   * @param edge The edge whose weight and label are copied.
+   * @param id The ID of the copy.
+   * @param attributes The attributes record of the copy, shared by both copies of a unidirected edge.
+   */
+  protected copyArc(
+    graph: CommonGraphMethods<T>,
+    from: T,
+    to: T,
+    edge: GraphEdge<T>,
+    id: number,
+    attributes: EdgeAttributes,
+  ): void {
+    graph.adjacencyList.get(graph.keyOf(from))!.push(
+      new GraphEdge(
+        graph.nodeMap.get(graph.keyOf(to))!,
+        edge.weight,
+        id,
+        edge.label,
+        attributes,
+      ),
+    );
+  }
+
+  /**
+   * Copies the graph, keeping only some of its nodes and edges.
+   * Shared by `clone`, `subgraph`, `filterNodes`, `filterEdges`, `union` and `intersection`.
+   * @param keepNode Whether to keep a node.
+   * @param keepEdge Whether to keep an edge between two kept nodes. Must give the same answer
+   *                 for both copies of a unidirected edge.
+   * @returns A new graph of the same class.
+   */
+  private derive(
+    keepNode: (node: T) => boolean,
+    keepEdge: (from: T, edge: GraphEdge<T>) => boolean = () => true,
+  ): this {
+    return this.copyEdgesInto(
+      this.emptyCopy(this.nodes.filter(keepNode)),
+      keepEdge,
+    );
+  }
+
+  /**
+   * Copies the edges between the nodes of another graph into it, keeping their IDs and the
+   * order of every adjacency list.
+   * @param copy The graph to fill. Must hold no edges yet.
+   * @param keepEdge Whether to keep an edge. Must give the same answer for both copies of a
+   *                 unidirected edge.
+   * @returns The filled graph.
+   */
+  private copyEdgesInto<G extends CommonGraphMethods<T>>(
+    copy: G,
+    keepEdge: (from: T, edge: GraphEdge<T>) => boolean = () => true,
+  ): G {
+    const attributes: Map<number, EdgeAttributes> = new Map();
+    for (const node of copy.nodes) {
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        if (!copy.hasNode(edge.target) || !keepEdge(node, edge)) continue;
+        if (!attributes.has(edge.id)) {
+          attributes.set(edge.id, { ...edge.attributes });
+        }
+        this.copyArc(
+          copy,
+          node,
+          edge.target,
+          edge,
+          edge.id,
+          attributes.get(edge.id)!,
+        );
+      }
+    }
+    return copy;
+  }
+
+  /**
+   * Builds the payload of an `edgeAdded` or `edgeRemoved` event.
+   * @param from The data of the source node.
+   * @param edge The edge leaving `from`.
+   * @returns The event payload, without a `weight` for unweighted edges.
+   */
+  protected edgeEvent(from: T, edge: GraphEdge<T>): EdgeEvent<T> {
+    return edge.weight === undefined
+      ? { from, to: edge.target, id: edge.id }
+      : { from, to: edge.target, weight: edge.weight, id: edge.id };
+  }
+
+  /**
+   * Reports a failure: throws it in strict mode, otherwise logs its message.
+   * @param error The error describing the failure.
+   * @param fallback The value to return outside of strict mode.
+   * @returns The fallback value.
+   * @throws {GraphError} The given error, in strict mode.
+   */
+  protected fail<R>(error: GraphError, fallback: R): R {
+    return reportFailure(error, fallback, this.strict, this.logger);
+  }
+
+  /**
+   * Finds the first of the given nodes that is not in the graph.
+   * @param nodes The nodes to check.
+   * @returns The key of the first missing node, or `undefined` if all of them exist.
+   */
+  protected missingKey(...nodes: T[]): NodeKey | undefined {
+    const missing = nodes.find((node) => !this.hasNode(node));
+    return missing === undefined ? undefined : this.keyOf(missing);
+  }
+
+  /**
+   * Calls every listener registered for an event.
+   * @param event The event name.
+   * @param payload The value passed to the listeners.
+   */
+  protected emit<E extends keyof GraphEventMap<T>>(
+    event: E,
+    payload: GraphEventMap<T>[E],
+  ): void {
+    for (const listener of [...this.listeners[event]]) listener(payload);
+  }
+
+  /**
+   * Registers a listener for an event.
+   * @param event The event name.
+   * @param listener The function to call when the event is emitted.
+   * @returns A function that unregisters the listener.
+   */
+  private subscribe<E extends keyof GraphEventMap<T>>(
+    event: E,
+    listener: (payload: GraphEventMap<T>[E]) => void,
+  ): () => void {
+    this.listeners[event].push(listener);
+    return () => {
+      const index = this.listeners[event].indexOf(listener);
+      if (index !== -1) this.listeners[event].splice(index, 1);
+    };
+  }
+
+  /**
+   * Sets the weight of every edge stored in `from`'s adjacency list that points to `to`.
+   * @param from The data of the source node.
+   * @param to The data of the target node.
+   * @param weight The new weight.
+   * @returns `true` if at least one edge was updated.
+   */
+  protected reweightArcs(from: T, to: T, weight: number): boolean {
+    let updated = false;
+    for (const edge of this.adjacencyList.get(this.keyOf(from)) ?? []) {
+      if (this.keyOf(edge.target) === this.keyOf(to)) {
+        edge.weight = weight;
+        updated = true;
+      }
+    }
+    return updated;
+  }
+
+  // addEdge, addWeightedEdge, removeEdge, updateEdgeWeight, edgeCount and degree
+  // differ for directed/undirected, so they are defined in the respective subclasses.
+
+  /**
+   * Performs a Breadth-First Search (BFS) traversal starting from a given node.
+   * Visits nodes layer by layer. A thin wrapper around `bfsIter`.
+   * @param startNodeData The data of the node to start the traversal from. Must implement `DataShapeWithValue`.
+   * @param processNode A callback function to execute on the data of each visited node.
+   *                    Return `false` from it to stop the traversal early.
+   * @throws {NodeNotFoundError} In strict mode, if the start node is not in the graph.
+   */
+  bfs(startNodeData: T, processNode: (data: T) => unknown): void {
+    for (const { node } of this.bfsIter(startNodeData)) {
+      if (processNode(node) === false) return;
+    }
+  }
+
+  /**
+   * Performs a Depth-First Search (DFS) traversal starting from a given node.
+   * Visits nodes by exploring as far as possible along each branch before backtracking.
+   * Neighbors are explored from the last one added to the first. A thin wrapper around `dfsIter`.
+   * @param startNodeData The data of the node to start the traversal from. Must implement `DataShapeWithValue`.
+   * @param processNode A callback function to execute on the data of each visited node.
+   *                    Return `false` from it to stop the traversal early.
+   * @throws {NodeNotFoundError} In strict mode, if the start node is not in the graph.
+   */
+  dfs(startNodeData: T, processNode: (data: T) => unknown): void {
+    for (const { node } of this.dfsIter(startNodeData)) {
+      if (processNode(node) === false) return;
+    }
+  }
+
+  /**
+   * Lazily performs a Breadth-First Search from one or more start nodes.
+   * With several start nodes (multi-source BFS) they all sit at depth 0, so each node's
+   * depth is its distance in edges from the nearest start node.
+   * Stop early by breaking out of the loop; no further nodes are explored.
+   * @param start The data of the start node, or an array of start nodes.
+   * @returns A generator yielding each reachable node once, with its depth and the node it was reached from.
+   * @throws {NodeNotFoundError} In strict mode, if a start node is not in the graph.
+   */
+  *bfsIter(start: T | T[]): Generator<TraversalStep<T>> {
+    const sources = Array.isArray(start) ? start : [start];
+    const missing = this.missingKey(...sources);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `BFS failed: Start node with data ${missing} not found.`,
+        ),
+        undefined,
+      );
+    }
+
+    yield* this.breadthFirst(sources, new Set());
+  }
+
+  /**
+   * Lazily performs a Depth-First Search from a start node.
+   * In pre-order a node is yielded when it is first reached; in post-order once all of
+   * its descendants have been yielded (useful for dependency resolution).
+   * Neighbors are explored from the last one added to the first, matching `dfs`.
+   * Stop early by breaking out of the loop; no further nodes are explored.
+   * @param start The data of the start node.
+   * @param options.order `"pre"` (default) or `"post"`.
+   * @returns A generator yielding each reachable node once, with its depth and its parent in the DFS tree.
+   * @throws {NodeNotFoundError} In strict mode, if the start node is not in the graph.
+   */
+  *dfsIter(
+    start: T,
+    options: { order?: "pre" | "post" } = {},
+  ): Generator<TraversalStep<T>> {
+    const missing = this.missingKey(start);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `DFS failed: Start node with data ${missing} not found.`,
+        ),
+        undefined,
+      );
+    }
+
+    yield* this.depthFirst(start, options.order ?? "pre", new Set());
+  }
+
+  /**
+   * Lazily traverses every node of the graph, including disconnected parts.
+   * Each unvisited node, in insertion order, starts a new traversal at depth 0 with no parent.
+   * @param options.algorithm `"bfs"` (default) or `"dfs"`.
+   * @param options.order For `"dfs"`, `"pre"` (default) or `"post"`.
+   * @returns A generator yielding every node of the graph exactly once.
+   */
+  *traverseAll(
+    options: { algorithm?: "bfs" | "dfs"; order?: "pre" | "post" } = {},
+  ): Generator<TraversalStep<T>> {
+    const visited: Set<NodeKey> = new Set();
+    for (const root of [...this.nodes]) {
+      if (visited.has(this.keyOf(root))) continue;
+      if (options.algorithm === "dfs") {
+        yield* this.depthFirst(root, options.order ?? "pre", visited);
+      } else {
+        yield* this.breadthFirst([root], visited);
+      }
+    }
+  }
+
+  /**
+   * Core of the breadth-first traversals. Assumes the sources exist in the graph.
+   * @param sources The start nodes, all at depth 0.
+   * @param visited Keys of nodes that must not be yielded; updated as nodes are reached.
+   * @returns A generator yielding the newly reached nodes.
+   */
+  private *breadthFirst(
+    sources: T[],
+    visited: Set<NodeKey>,
+  ): Generator<TraversalStep<T>> {
+    const queue: TraversalStep<T>[] = [];
+    for (const source of sources) {
+      const key = this.keyOf(source);
+      if (visited.has(key)) continue;
+      // Mark as visited *before* enqueuing
+      visited.add(key);
+      queue.push({ node: this.nodeMap.get(key)!, depth: 0, parent: null });
+    }
+
+    // Read from a moving head instead of shifting, which would be O(n) per dequeue
+    for (let head = 0; head < queue.length; head++) {
+      const step = queue[head];
+      yield step;
+
+      for (const edge of this.adjacencyList.get(this.keyOf(step.node)) ?? []) {
+        const key = this.keyOf(edge.target);
+        if (!visited.has(key)) {
+          visited.add(key);
+          queue.push({
+            node: edge.target,
+            depth: step.depth + 1,
+            parent: step.node,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Core of the depth-first traversals. Assumes the root exists in the graph.
+   * Uses an explicit stack of frames, so deep graphs cannot overflow the call stack.
+   * @param root The start node.
+   * @param order Whether to yield nodes when they are reached or when they are finished.
+   * @param visited Keys of nodes that must not be yielded; updated as nodes are reached.
+   * @returns A generator yielding the newly reached nodes.
+   */
+  private *depthFirst(
+    root: T,
+    order: "pre" | "post",
+    visited: Set<NodeKey>,
+  ): Generator<TraversalStep<T>> {
+    const rootKey = this.keyOf(root);
+    if (visited.has(rootKey)) return;
+    visited.add(rootKey);
+
+    // Each frame walks its node's adjacency list backwards
+    const start: TraversalStep<T> = {
+      node: this.nodeMap.get(rootKey)!,
+      depth: 0,
+      parent: null,
+    };
+    const stack = [{
+      step: start,
+      edges: this.adjacencyList.get(rootKey)!,
+      next: this.adjacencyList.get(rootKey)!.length - 1,
+    }];
+    if (order === "pre") yield start;
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next < 0) {
+        stack.pop();
+        if (order === "post") yield frame.step;
+        continue;
+      }
+
+      const target = frame.edges[frame.next--].target;
+      const key = this.keyOf(target);
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      const step: TraversalStep<T> = {
+        node: target,
+        depth: frame.step.depth + 1,
+        parent: frame.step.node,
+      };
+      if (order === "pre") yield step;
+      const edges = this.adjacencyList.get(key)!;
+      stack.push({ step, edges, next: edges.length - 1 });
+    }
+  }
+
+  /**
+   * Implements Dijkstra's algorithm to find the shortest paths from a start node
+   * to all other reachable nodes in the graph.
+   * Uses a binary-heap `PriorityQueue` with `decreaseKey`, so it runs in
+   * O((V + E) log V). Ties between equally distant nodes are settled in the
+   * order the nodes were added to the graph.
+   * Edges must have non-negative weights.
+   *
+   * @param startNodeData The data of the node to start the algorithm from. Must implement `DataShapeWithValue`.
+   * @returns A tuple containing:
+   *          - distances: A Map where keys are node keys (see `keyOf`) and values are the shortest distance from the start node. Infinity if unreachable.
+   *          - predecessors: A Map where keys are node keys (see `keyOf`) and values are the predecessor node data (T) on the shortest path from the start node, or null for the start node.
+   * @throws {GraphError} In strict mode, if the start node is missing (`NodeNotFoundError`) or a weight is negative (`NegativeWeightError`).
+   */
+  dijkstra(startNodeData: T): {
+    distances: Map<NodeKey, number>;
+    predecessors: Map<NodeKey, T | null>;
+  } {
+    // Check if the start node exists in the graph
+    const missing = this.missingKey(startNodeData);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `Dijkstra failed: Start node with data ${
+            this.keyOf(startNodeData)
+          } not found.`,
+        ),
+        { distances: new Map(), predecessors: new Map() },
+      );
+    }
+
+    return (
+      this.dijkstraSearch(startNodeData, null) ?? {
+        distances: new Map(),
+        predecessors: new Map(),
+      }
+    );
+  }
+
+  /**
+   * Finds the cheapest path between two nodes using Dijkstra's algorithm.
+   * The search stops as soon as the target node is settled, so it usually
+   * explores far fewer nodes than a full `dijkstra` run.
+   * Edges must have non-negative weights; unweighted edges count as 1.
+   *
+   * @param from The data of the start node. Must implement `DataShapeWithValue`.
+   * @param to The data of the target node. Must implement `DataShapeWithValue`.
+   * @returns The nodes along the path (including both ends) and its total cost,
+   *          or `null` if either node is missing, the target is unreachable, or a negative weight is found.
+   * @throws {GraphError} In strict mode, if a node is missing (`NodeNotFoundError`) or a weight is negative (`NegativeWeightError`).
+   */
+  shortestPath(from: T, to: T): { path: T[]; cost: number } | null {
+    const missing = this.missingKey(from, to);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `Shortest path failed: Start (${this.keyOf(from)}) or target (${
+            this.keyOf(to)
+          }) node not found.`,
+        ),
+        null,
+      );
+    }
+
+    const result = this.dijkstraSearch(from, to);
+    if (!result) return null;
+
+    const cost = result.distances.get(this.keyOf(to))!;
+    if (cost === Infinity) return null;
+
+    return { path: pathTo(result.predecessors, to, this.keyOf), cost };
+  }
+
+  /**
+   * Implements A* search to find the cheapest path between two nodes, guided by a heuristic
+   * that estimates the remaining cost to the goal. With a heuristic of 0 it behaves like
+   * `shortestPath`; a good heuristic lets it explore far fewer nodes.
+   * The heuristic must never overestimate the true remaining cost (be admissible) for the
+   * result to be optimal. Edges must have non-negative weights; unweighted edges count as 1.
+   * See `manhattanHeuristic` and `euclideanHeuristic` for nodes carrying `x`/`y` coordinates.
+   *
+   * @param start The data of the start node. Must implement `DataShapeWithValue`.
+   * @param goal The data of the goal node. Must implement `DataShapeWithValue`.
+   * @param heuristic A function estimating the cost from a node to the goal.
+   * @returns The nodes along the path (including both ends) and its total cost,
+   *          or `null` if either node is missing, the goal is unreachable, or a negative weight is found.
+   * @throws {GraphError} In strict mode, if a node is missing (`NodeNotFoundError`) or a weight is negative (`NegativeWeightError`).
+   */
+  aStar(
+    start: T,
+    goal: T,
+    heuristic: (node: T, goal: T) => number,
+  ): { path: T[]; cost: number } | null {
+    const missing = this.missingKey(start, goal);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `A* failed: Start (${this.keyOf(start)}) or goal (${
+            this.keyOf(goal)
+          }) node not found.`,
+        ),
+        null,
+      );
+    }
+
+    // Cost of the best known path from the start to each node (g-score)
+    const costs: Map<NodeKey, number> = new Map([[this.keyOf(start), 0]]);
+    const predecessors: Map<NodeKey, T | null> = new Map([[
+      this.keyOf(start),
+      null,
+    ]]);
+
+    // Frontier ordered by estimated total cost (f = g + h), preferring nodes closer to the goal
+    const queue = new PriorityQueue<AStarEntry<T>>(
+      (a, b) => a.estimate - b.estimate || a.remaining - b.remaining,
+    );
+    const handles: Map<NodeKey, PriorityQueueHandle<AStarEntry<T>>> = new Map();
+    const remaining = heuristic(start, goal);
+    handles.set(
+      this.keyOf(start),
+      queue.push({ node: start, estimate: remaining, remaining }),
+    );
+
+    while (!queue.isEmpty()) {
+      const { node: currentNode } = queue.pop()!;
+      handles.delete(this.keyOf(currentNode));
+
+      if (this.keyOf(currentNode) === this.keyOf(goal)) {
+        return {
+          path: pathTo(predecessors, currentNode, this.keyOf),
+          cost: costs.get(this.keyOf(goal))!,
+        };
+      }
+
+      const currentCost = costs.get(this.keyOf(currentNode))!;
+      for (const edge of this.getNeighbors(currentNode)!) {
+        const neighbor = edge.target;
+        const weight = edge.weight ?? 1;
+
+        if (weight < 0) {
+          return this.fail(
+            new NegativeWeightError(
+              weight,
+              "A* requires non-negative edge weights. Found negative weight.",
+            ),
+            null,
+          );
+        }
+
+        const newCost = currentCost + weight;
+        if (newCost >= (costs.get(this.keyOf(neighbor)) ?? Infinity)) continue;
+
+        costs.set(this.keyOf(neighbor), newCost);
+        predecessors.set(this.keyOf(neighbor), currentNode);
+
+        const neighborRemaining = heuristic(neighbor, goal);
+        const entry: AStarEntry<T> = {
+          node: neighbor,
+          estimate: newCost + neighborRemaining,
+          remaining: neighborRemaining,
+        };
+        const handle = handles.get(this.keyOf(neighbor));
+        if (handle) {
+          queue.decreaseKey(handle, entry);
+        } else {
+          // Also re-opens expanded nodes if the heuristic was inconsistent
+          handles.set(this.keyOf(neighbor), queue.push(entry));
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Implements the Floyd-Warshall algorithm to compute shortest paths between every pair of nodes.
+   * Runs in O(V^3) time and O(V^2) memory, so it is intended for small, dense graphs.
+   * Negative edge weights are allowed; negative cycles show up as negative values on the
+   * diagonal of the distance matrix and are flagged in `negativeCycleNodes`.
+   * Unweighted edges count as 1; for parallel edges the cheapest one is used.
+   *
+   * Matrices are indexed by the position of each node in `getNodes()`.
+   * Use `floydWarshallPath` to turn the result into a concrete path.
+   *
+   * @returns The node order, the distance matrix, the next-hop matrix and the nodes lying on negative cycles.
+   */
+  floydWarshall(): FloydWarshallResult<T> {
+    const nodes = [...this.nodes];
+    const size = nodes.length;
+    const index: Map<NodeKey, number> = new Map();
+    nodes.forEach((node, i) => index.set(this.keyOf(node), i));
+
+    const distances: number[][] = [];
+    const next: (number | null)[][] = [];
+    for (let i = 0; i < size; i++) {
+      distances.push(new Array(size).fill(Infinity));
+      next.push(new Array(size).fill(null));
+      distances[i][i] = 0;
+      next[i][i] = i;
+    }
+
+    // Seed the matrices with the direct edges
+    nodes.forEach((node, i) => {
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        const j = index.get(this.keyOf(edge.target))!;
+        const weight = edge.weight ?? 1;
+        if (weight < distances[i][j]) {
+          distances[i][j] = weight;
+          next[i][j] = j;
+        }
+      }
+    });
+
+    // Allow each node in turn as an intermediate stop
+    for (let k = 0; k < size; k++) {
+      const rowK = distances[k];
+      for (let i = 0; i < size; i++) {
+        const distanceIK = distances[i][k];
+        if (distanceIK === Infinity) continue;
+        const rowI = distances[i];
+        for (let j = 0; j < size; j++) {
+          const candidate = distanceIK + rowK[j];
+          if (candidate < rowI[j]) {
+            rowI[j] = candidate;
+            next[i][j] = next[i][k];
+          }
+        }
+      }
+    }
+
+    const negativeCycleNodes = nodes.filter((_node, i) => distances[i][i] < 0);
+
+    return { nodes, distances, next, negativeCycleNodes };
+  }
+
+  /**
+   * Ranks nodes with the PageRank algorithm (power iteration). A node ranks highly
+   * when highly ranked nodes link to it. Every edge counts equally, whatever its weight;
+   * nodes without outgoing edges spread their rank evenly over all nodes.
+   * Unidirected edges link both ways.
+   *
+   * @param options.damping The probability of following a link rather than jumping to a random node. Defaults to 0.85.
+   * @param options.tolerance Iteration stops once the ranks change by less than this in total. Defaults to 1e-6.
+   * @param options.maxIterations The maximum number of iterations. Defaults to 100.
+   * @returns A Map from node key to rank, in node insertion order. The ranks sum to 1.
+   *          An empty Map if `damping` is not between 0 and 1.
+   * @throws {GraphError} In strict mode, if `damping` is not between 0 and 1.
+   */
+  pageRank(
+    options: { damping?: number; tolerance?: number; maxIterations?: number } =
+      {},
+  ): Map<NodeKey, number> {
+    const damping = options.damping ?? 0.85;
+    const tolerance = options.tolerance ?? 1e-6;
+    const maxIterations = options.maxIterations ?? 100;
+    if (!(damping >= 0 && damping <= 1)) {
+      return this.fail(
+        new GraphError("PageRank damping must be between 0 and 1"),
+        new Map(),
+      );
+    }
+
+    const size = this.nodes.length;
+    const targets = this.indexedTargets();
+    let rank: number[] = new Array(size).fill(1 / size);
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const next: number[] = new Array(size).fill(0);
+      let dangling = 0;
+      for (let i = 0; i < size; i++) {
+        if (targets[i].length === 0) {
+          dangling += rank[i];
+          continue;
+        }
+        const share = rank[i] / targets[i].length;
+        for (const { target } of targets[i]) next[target] += share;
+      }
+
+      let change = 0;
+      for (let i = 0; i < size; i++) {
+        next[i] = (1 - damping) / size + damping * (next[i] + dangling / size);
+        change += Math.abs(next[i] - rank[i]);
+      }
+      rank = next;
+      if (change < tolerance) break;
+    }
+
+    return new Map(this.nodes.map((node, i) => [this.keyOf(node), rank[i]]));
+  }
+
+  /**
+   * Computes the closeness centrality of every node: how near it is to the nodes it can reach.
+   * Uses the Wasserman-Faust formula `(r - 1) / total * (r - 1) / (n - 1)`, where `r` is the
+   * number of nodes reachable from the node (including itself) and `total` the sum of the
+   * distances to them, so nodes in small components are not overrated.
+   * For directed graphs the distances follow the edges away from the node.
+   *
+   * @param options.weighted When `true`, distances use edge weights (unweighted edges count as 1);
+   *                         otherwise every edge counts as 1. Defaults to `false`.
+   * @returns A Map from node key to closeness between 0 and 1, in node insertion order,
+   *          or an empty Map if a weighted run finds a negative weight.
+   * @throws {NegativeWeightError} In strict mode, if a weighted run finds a negative weight.
+   */
+  closenessCentrality(
+    options: { weighted?: boolean } = {},
+  ): Map<NodeKey, number> {
+    const size = this.nodes.length;
+    const scores: Map<NodeKey, number> = new Map();
+
+    for (const node of this.nodes) {
+      let distances: Iterable<number>;
+      if (options.weighted) {
+        const result = this.dijkstraSearch(node, null);
+        if (!result) return new Map();
+        distances = result.distances.values();
+      } else {
+        distances = [...this.breadthFirst([node], new Set())].map((step) =>
+          step.depth
+        );
+      }
+
+      let reachable = 0;
+      let total = 0;
+      for (const distance of distances) {
+        if (distance === Infinity) continue;
+        reachable++;
+        total += distance;
+      }
+      scores.set(
+        this.keyOf(node),
+        total > 0 && size > 1
+          ? ((reachable - 1) / total) * ((reachable - 1) / (size - 1))
+          : 0,
+      );
+    }
+
+    return scores;
+  }
+
+  /**
+   * Searches for a Hamiltonian path: a path that visits every node exactly once, following
+   * edge directions in directed graphs. The problem is NP-complete, so the search backtracks
+   * from each node in turn (trying the neighbours with the fewest unvisited neighbours first,
+   * as in Warnsdorff's rule) and gives up once it runs out of time or steps.
+   *
+   * @param options.timeoutMs The time limit in milliseconds. Defaults to 1000.
+   * @param options.maxSteps The maximum number of nodes to try adding to the path. Defaults to no limit.
+   * @returns The nodes of the path in order, or `null` if there is none or it was not found within the limits.
+   */
+  hamiltonianPath(
+    options: { timeoutMs?: number; maxSteps?: number } = {},
+  ): T[] | null {
+    const deadline = performance.now() + (options.timeoutMs ?? 1000);
+    const maxSteps = options.maxSteps ?? Infinity;
+    const size = this.nodes.length;
+    if (size === 0) return [];
+
+    // Distinct neighbours of every node, without self-loops
+    const neighbors: Map<NodeKey, T[]> = new Map();
+    for (const node of this.nodes) {
+      const targets: Map<NodeKey, T> = new Map();
+      for (const { target } of this.adjacencyList.get(this.keyOf(node))!) {
+        if (this.keyOf(target) !== this.keyOf(node)) {
+          targets.set(this.keyOf(target), target);
+        }
+      }
+      neighbors.set(this.keyOf(node), [...targets.values()]);
+    }
+
+    const onPath: Set<NodeKey> = new Set();
+    const unvisited = (node: T) =>
+      neighbors.get(this.keyOf(node))!.filter((next) =>
+        !onPath.has(this.keyOf(next))
+      );
+    // Sorted so that `pop` returns the candidate with the fewest onward moves
+    const candidates = (node: T) =>
+      unvisited(node)
+        .map((next) => ({ next, moves: unvisited(next).length }))
+        .sort((a, b) => b.moves - a.moves)
+        .map(({ next }) => next);
+
+    let steps = 0;
+    for (const start of this.nodes) {
+      const path: T[] = [start];
+      onPath.add(this.keyOf(start));
+      const choices: T[][] = [candidates(start)];
+
+      while (path.length > 0) {
+        if (path.length === size) return path;
+        if (++steps > maxSteps || performance.now() > deadline) {
+          this.logger.info(
+            `Hamiltonian path search stopped after ${steps - 1} steps`,
+          );
+          return null;
+        }
+
+        const next = choices[choices.length - 1].pop();
+        if (next === undefined) {
+          onPath.delete(this.keyOf(path.pop()!));
+          choices.pop();
+          continue;
+        }
+        path.push(next);
+        onPath.add(this.keyOf(next));
+        choices.push(candidates(next));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Core of Brandes' betweenness centrality algorithm, shared by `Directed.betweennessCentrality`
+   * and `Unidirected.betweennessCentrality`. Runs in O(V * E), or O(V * E log V) when weighted.
+   * @param directed Whether the graph is directed; unidirected scores count each pair of nodes once.
+   * @param options.weighted Whether shortest paths use edge weights (unweighted edges count as 1).
+   * @param options.normalized Whether to divide by the number of node pairs that could route through a node.
+   * @returns A Map from node key to betweenness, or an empty Map if a weighted run finds a negative weight.
+   */
+  protected brandes(
+    directed: boolean,
+    options: { weighted?: boolean; normalized?: boolean },
+  ): Map<NodeKey, number> {
+    const size = this.nodes.length;
+    const targets = this.indexedTargets();
+    const centrality: number[] = new Array(size).fill(0);
+
+    for (let source = 0; source < size; source++) {
+      // Single-source shortest paths, recording how many shortest paths reach each node
+      const order: number[] = [];
+      const predecessors: number[][] = Array.from({ length: size }, () => []);
+      const paths: number[] = new Array(size).fill(0);
+      const distance: number[] = new Array(size).fill(Infinity);
+      paths[source] = 1;
+      distance[source] = 0;
+
+      if (options.weighted) {
+        const queue = new PriorityQueue<{ node: number; distance: number }>(
+          (a, b) => a.distance - b.distance || a.node - b.node,
+        );
+        const settled: boolean[] = new Array(size).fill(false);
+        queue.push({ node: source, distance: 0 });
+        while (!queue.isEmpty()) {
+          const { node } = queue.pop()!;
+          if (settled[node]) continue;
+          settled[node] = true;
+          order.push(node);
+          for (const { target, weight } of targets[node]) {
+            if (weight < 0) {
+              return this.fail(
+                new NegativeWeightError(
+                  weight,
+                  "Betweenness centrality requires non-negative edge weights. Found negative weight.",
+                ),
+                new Map(),
+              );
+            }
+            const candidate = distance[node] + weight;
+            if (candidate < distance[target]) {
+              distance[target] = candidate;
+              paths[target] = paths[node];
+              predecessors[target] = [node];
+              queue.push({ node: target, distance: candidate });
+            } else if (candidate === distance[target] && !settled[target]) {
+              paths[target] += paths[node];
+              predecessors[target].push(node);
+            }
+          }
+        }
+      } else {
+        const queue = [source];
+        for (let head = 0; head < queue.length; head++) {
+          const node = queue[head];
+          order.push(node);
+          for (const { target } of targets[node]) {
+            if (distance[target] === Infinity) {
+              distance[target] = distance[node] + 1;
+              queue.push(target);
+            }
+            if (distance[target] === distance[node] + 1) {
+              paths[target] += paths[node];
+              predecessors[target].push(node);
+            }
+          }
+        }
+      }
+
+      // Accumulate dependencies from the farthest nodes back towards the source
+      const dependency: number[] = new Array(size).fill(0);
+      while (order.length > 0) {
+        const node = order.pop()!;
+        for (const predecessor of predecessors[node]) {
+          dependency[predecessor] += (paths[predecessor] / paths[node]) *
+            (1 + dependency[node]);
+        }
+        if (node !== source) centrality[node] += dependency[node];
+      }
+    }
+
+    // Unidirected paths are found from both ends, so halve their raw scores. Dividing by
+    // the number of ordered pairs normalizes both kinds to the same 0..1 range.
+    const pairs = (size - 1) * (size - 2);
+    let scale = directed ? 1 : 0.5;
+    if ((options.normalized ?? true) && pairs > 0) scale = 1 / pairs;
+    return new Map(
+      this.nodes.map((node, i) => [this.keyOf(node), centrality[i] * scale]),
+    );
+  }
+
+  /**
+   * Scales node degrees into degree centralities by dividing them by `n - 1`, the highest
+   * degree possible in a simple graph. Shared by `Directed.degreeCentrality` and
+   * `Unidirected.degreeCentrality`.
+   * @param degreeOf Returns the degree of a node.
+   * @returns A Map from node key to degree centrality, in node insertion order.
+   */
+  protected scaledDegrees(degreeOf: (node: T) => number): Map<NodeKey, number> {
+    const size = this.nodes.length;
+    return new Map(
+      this.nodes.map((node) => [
+        this.keyOf(node),
+        size > 1 ? degreeOf(node) / (size - 1) : 1,
+      ]),
+    );
+  }
+
+  /**
+   * Hierholzer's algorithm, shared by the `eulerianPath` and `eulerianCircuit` methods of
+   * `Directed` and `Unidirected`. Checks the degrees first: a directed circuit needs every node's
+   * in-degree to equal its out-degree, and a directed path allows one node with one extra
+   * outgoing edge (the start) and one with one extra incoming edge (the end); unidirected
+   * circuits need every degree to be even, and paths allow two nodes of odd degree (the ends).
+   * The edges must also all be connected, which holds if the walk uses every one of them.
+   * Runs in O(V + E).
+   *
+   * @param directed Whether the graph is directed; unidirected edges are used only once in either direction.
+   * @param circuit Whether the walk must end where it started.
+   * @returns The nodes along the walk, or `null` if there is none.
+   */
+  protected hierholzer(directed: boolean, circuit: boolean): T[] | null {
+    // Out-degree minus in-degree in directed graphs, and the degree in unidirected ones
+    const balance: Map<NodeKey, number> = new Map();
+    let edgeEnds = 0;
+    for (const [key, edges] of this.adjacencyList) {
+      balance.set(key, (balance.get(key) ?? 0) + edges.length);
+      edgeEnds += edges.length;
+      if (!directed) continue;
+      for (const edge of edges) {
+        const target = this.keyOf(edge.target);
+        balance.set(target, (balance.get(target) ?? 0) - 1);
+      }
+    }
+    const edgeCount = directed ? edgeEnds : edgeEnds / 2;
+    if (edgeCount === 0) return [];
+
+    let start: T | undefined;
+    let ends = 0;
+    for (const node of this.nodes) {
+      const value = balance.get(this.keyOf(node))!;
+      const isEnd = directed ? value !== 0 : value % 2 !== 0;
+      if (!isEnd) continue;
+      if (circuit || (directed && Math.abs(value) !== 1) || ++ends > 2) {
+        return null;
+      }
+      // Directed paths start at the node with the extra outgoing edge
+      if (!start && (!directed || value === 1)) start = node;
+    }
+    start ??= this.nodes.find((node) =>
+      this.adjacencyList.get(this.keyOf(node))!.length > 0
+    )!;
+
+    // Walk unused edges until stuck, then back up and splice in detours from earlier nodes
+    const used: Set<number> = new Set();
+    const nextEdge: Map<NodeKey, number> = new Map();
+    const stack: T[] = [start];
+    const walk: T[] = [];
+    while (stack.length > 0) {
+      const current = stack[stack.length - 1];
+      const edges = this.adjacencyList.get(this.keyOf(current))!;
+      let i = nextEdge.get(this.keyOf(current)) ?? 0;
+      while (i < edges.length && used.has(edges[i].id)) i++;
+      nextEdge.set(this.keyOf(current), i + 1);
+
+      if (i < edges.length) {
+        used.add(edges[i].id);
+        stack.push(edges[i].target);
+      } else {
+        walk.push(stack.pop()!);
+      }
+    }
+
+    return used.size === edgeCount ? walk.reverse() : null;
+  }
+
+  /**
+   * Lists the outgoing edges of every node by node position, for the array-based algorithms.
+   * Self-loops are dropped and parallel edges are merged, keeping the lowest weight
+   * (unweighted edges count as 1).
+   * @returns For each node in insertion order, its distinct targets with their weights.
+   */
+  private indexedTargets(): { target: number; weight: number }[][] {
+    const index: Map<NodeKey, number> = new Map();
+    this.nodes.forEach((node, i) => index.set(this.keyOf(node), i));
+
+    return this.nodes.map((node, i) => {
+      const best: Map<number, number> = new Map();
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        const target = index.get(this.keyOf(edge.target))!;
+        const weight = edge.weight ?? 1;
+        if (target !== i && weight < (best.get(target) ?? Infinity)) {
+          best.set(target, weight);
+        }
+      }
+      return [...best].map(([target, weight]) => ({ target, weight }));
+    });
+  }
+
+  /**
+   * Groups nodes that are linked by edges in either direction, using a `DisjointSet`.
+   * Shared by `Unidirected.connectedComponents` and `Directed.weaklyConnectedComponents`.
+   * @returns The components ordered by their earliest-added node; nodes keep insertion order.
+   */
+  protected linkedComponents(): T[][] {
+    const components = new DisjointSet<NodeKey>(
+      this.nodes.map((node) => this.keyOf(node)),
+    );
+    for (const node of this.nodes) {
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        components.union(this.keyOf(node), this.keyOf(edge.target));
+      }
+    }
+    return components
+      .groups()
+      .map((group) => group.map((key) => this.nodeMap.get(key)!));
+  }
+
+  /**
+   * Core of Dijkstra's algorithm shared by `dijkstra` and `shortestPath`.
+   * Assumes the start node exists in the graph.
+   * @param startNodeData The data of the node to start from.
+   * @param target Optional node at which to stop once it is settled, or `null` to settle every reachable node.
+   * @param weightOf Optional function giving the cost of an edge leaving a node. Defaults to the edge weight, or 1 when unweighted.
+   * @returns The distances and predecessors maps, or `null` if a negative edge weight was found.
+   */
+  protected dijkstraSearch(
+    startNodeData: T,
+    target: T | null,
+    weightOf: (from: T, edge: GraphEdge<T>) => number = (_from, edge) =>
+      edge.weight ?? 1,
+  ): {
+    distances: Map<NodeKey, number>;
+    predecessors: Map<NodeKey, T | null>;
+  } | null {
+    const distances: Map<NodeKey, number> = new Map();
+    const predecessors: Map<NodeKey, T | null> = new Map();
+    // Insertion order of each node, used to break distance ties deterministically
+    const order: Map<NodeKey, number> = new Map();
+
+    // Initialize distances and predecessors
+    this.nodes.forEach((node, index) => {
+      distances.set(this.keyOf(node), Infinity);
+      predecessors.set(this.keyOf(node), null);
+      order.set(this.keyOf(node), index);
+    });
+
+    // Min-heap of frontier nodes ordered by tentative distance
+    const queue = new PriorityQueue<DijkstraEntry<T>>(
+      (a, b) => a.distance - b.distance || a.order - b.order,
+    );
+    const handles: Map<NodeKey, PriorityQueueHandle<DijkstraEntry<T>>> =
+      new Map();
+    const settled: Set<NodeKey> = new Set();
+
+    // Distance from start node to itself is 0
+    distances.set(this.keyOf(startNodeData), 0);
+    handles.set(
+      this.keyOf(startNodeData),
+      queue.push({
+        node: startNodeData,
+        distance: 0,
+        order: order.get(this.keyOf(startNodeData))!,
+      }),
+    );
+
+    // Process nodes in order of increasing distance
+    while (!queue.isEmpty()) {
+      const { node: currentNode, distance } = queue.pop()!;
+      settled.add(this.keyOf(currentNode));
+
+      // The target's distance is final once it leaves the queue
+      if (target !== null && this.keyOf(currentNode) === this.keyOf(target)) {
+        break;
+      }
+
+      // Update distances of neighbors
+      const neighbors = this.getNeighbors(currentNode);
+      if (neighbors) {
+        for (const edge of neighbors) {
+          const neighbor = edge.target;
+          const weight = weightOf(currentNode, edge);
+
+          // Check for negative weights (Dijkstra requires non-negative weights)
+          if (weight < 0) {
+            return this.fail(
+              new NegativeWeightError(
+                weight,
+                "Dijkstra requires non-negative edge weights. Found negative weight.",
+              ),
+              null,
+            );
+          }
+
+          // Only consider neighbors that have not been settled yet
+          if (!settled.has(this.keyOf(neighbor))) {
+            const newDistance = distance + weight;
+
+            // If a shorter path to the neighbor is found
+            if (newDistance < distances.get(this.keyOf(neighbor))!) {
+              distances.set(this.keyOf(neighbor), newDistance);
+              predecessors.set(this.keyOf(neighbor), currentNode);
+
+              const entry: DijkstraEntry<T> = {
+                node: neighbor,
+                distance: newDistance,
+                order: order.get(this.keyOf(neighbor))!,
+              };
+              const handle = handles.get(this.keyOf(neighbor));
+              if (handle) {
+                queue.decreaseKey(handle, entry);
+              } else {
+                handles.set(this.keyOf(neighbor), queue.push(entry));
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return { distances, predecessors };
+  }
+}
+
+/**
+ * Represents a Directed Graph (Digraph).
+ * Edges in a directed graph have a specific direction from a source node to a target node.
+ * Node data must implement the `DataShapeWithValue` interface.
+ */
+export class Directed<
+  T extends DataShapeWithValue,
+> extends CommonGraphMethods<T> {
+  /**
+   * Constructs a new Directed Graph.
+   * @param options Optional graph options, such as a custom `keyOf` for node identity.
+   */
+  constructor(options: GraphOptions<T> = {}) {
+    super(options);
+    this.logger.info("Created a Directed Graph");
+  }
+
+  /**
+   * Edges of a directed graph always have a direction.
+   */
+  protected override get directed(): boolean {
+    return true;
+  }
+
+  /**
+   * Rebuilds a directed graph from a DOT document such as the ones produced by `toDOT`.
+   * Edge labels that are numbers become edge weights. Only plain node and edge statements
+   * are supported; attribute defaults and graph attributes are ignored.
+   * @param dot The DOT source, which must declare a `digraph`.
+   * @param toData Optional function creating node data from a node ID and its attributes.
+   *               By default the ID is parsed as the node `value` and any `label` is kept, which
+   *               needs the default `keyOf`; pass `toData` when using a custom one.
+   * @param options Optional graph options for the new graph, such as a custom `keyOf`.
+   * @returns A new Directed graph.
+   * @throws {Error} If the document is malformed, is not a `digraph`, or a node ID is not numeric,
+   *                 or if `toData` is missing while `options.keyOf` is set.
+   */
+  static fromDOT<U extends DataShapeWithValue = DataShapeWithValue>(
+    dot: string,
+    toData?: (id: string, attributes: DotAttributes) => U,
+    options: GraphOptions<U> = {},
+  ): Directed<U> {
+    const document = parseDOT(dot);
+    if (!document.directed) {
+      throw new Error("Invalid DOT: expected a digraph for a Directed graph");
+    }
+    return populateFromDOT(new Directed<U>(options), document, toData, options);
+  }
+
+  /**
+   * Renders the graph as a Graphviz DOT `digraph` document.
+   * Node IDs are the node keys; edge weights become edge labels.
+   * @param options Optional rendering options, see `DotOptions`.
+   * @returns The DOT document.
+   */
+  toDOT(options: DotOptions<T> = {}): string {
+    return this.renderDOT(true, options);
+  }
+
+  /**
+   * Rebuilds a directed graph from its JSON representation (see `GraphJSON`).
+   * @param json The JSON text, or an already parsed `GraphJSON` object.
+   * @param options Optional graph options for the new graph. Pass the `keyOf` the graph was saved with.
+   * @returns A new Directed graph.
+   * @throws {Error} If the JSON is malformed, has an unsupported version, describes an
+   *                 unidirected graph, or an edge references an unknown node.
+   */
+  static fromJSON<U extends DataShapeWithValue>(
+    json: string | GraphJSON<U>,
+    options: GraphOptions<U> = {},
+  ): Directed<U> {
+    const document = parseGraphJSON<U>(json);
+    if (!document.directed) {
+      throw new Error(
+        "Invalid graph JSON: expected a directed graph for a Directed graph",
+      );
+    }
+    return populateFromJSON(new Directed<U>(options), document);
+  }
+
+  /**
+   * Rebuilds a directed graph from a delimited edge list (see `EdgeListOptions`).
+   * @param text The edge list text.
+   * @param options Parsing options. Pass `nodes` to attach full node records, matched by their key.
+   *                Without `nodes`, plain `{ value }` nodes are created, which needs the default `keyOf`.
+   * @returns A new Directed graph.
+   * @throws {Error} If a row is malformed or references a node missing from `options.nodes`,
+   *                 or if `options.nodes` is missing while `options.keyOf` is set.
+   */
+  static fromEdgeList<U extends DataShapeWithValue = DataShapeWithValue>(
+    text: string,
+    options: EdgeListOptions & GraphOptions<U> & { nodes?: U[] } = {},
+  ): Directed<U> {
+    return populateFromEdgeList(new Directed<U>(options), text, options);
+  }
+
+  /**
+   * Returns the versioned JSON representation of the graph (see `GraphJSON`).
+   * `JSON.stringify(graph)` uses this method automatically.
+   * @returns The graph as a `GraphJSON` object.
+   */
+  toJSON(): GraphJSON<T> {
+    return this.serializeJSON(true);
+  }
+
+  /**
+   * Writes the graph as a delimited edge list with one `from, to, weight` row per edge,
+   * using node keys as IDs. Nodes without edges are not included.
+   * @param options Formatting options, see `EdgeListOptions`.
+   * @returns The edge list text.
+   */
+  toEdgeList(options: EdgeListOptions = {}): string {
+    return this.writeEdgeList(true, options);
+  }
+
+  /**
+   * Adds an unweighted directed edge from one node to another.
+   * The edge goes from the `from` node to the `to` node.
+   * Nodes must already exist in the graph.
+   * @param from The data of the source node. Must implement `DataShapeWithValue`.
+   * @param to The data of the target node. Must implement `DataShapeWithValue`.
+   * @param options Optional label and attributes of the edge.
+   * @returns The new edge, the existing edge it was merged into (see `GraphOptions.duplicateEdges`),
+   *          or `undefined` if it was not added.
+   * @throws {GraphError} In strict mode, if either node is not in the graph (`NodeNotFoundError`)
+   *                      or the edge breaks the `multigraph` or `selfLoops` policy.
+   */
+  addEdge(from: T, to: T, options: EdgeOptions = {}): GraphEdge<T> | undefined {
+    // Ensure both nodes exist before adding edge
+    const missing = this.missingKey(from, to);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `Cannot add directed edge: Source (${this.keyOf(from)}) or target (${
+            this.keyOf(to)
+          }) node not found.`,
+        ),
+        undefined,
+      );
+    }
+
+    // Add edge from 'from' to 'to' in the adjacency list
+    return this.insertEdge(
+      true,
+      from,
+      to,
+      undefined,
+      options,
+      `Added directed edge from ${this.keyOf(from)} to ${this.keyOf(to)}`,
+    );
+  }
+
+  /**
+   * Adds a weighted directed edge from one node to another.
+   * The edge goes from the `from` node to the `to` node with the specified weight.
+   * Nodes must already exist in the graph.
+   * @param from The data of the source node. Must implement `DataShapeWithValue`.
+   * @param to The data of the target node. Must implement `DataShapeWithValue`.
+   * @param weight The weight of the edge.
+   * @param options Optional label and attributes of the edge.
+   * @returns The new edge, the existing edge it was merged into (see `GraphOptions.duplicateEdges`),
+   *          or `undefined` if it was not added.
+   * @throws {GraphError} In strict mode, if either node is not in the graph (`NodeNotFoundError`)
+   *                      or the edge breaks the `multigraph` or `selfLoops` policy.
+   */
+  addWeightedEdge(
+    from: T,
+    to: T,
+    weight: number,
+    options: EdgeOptions = {},
+  ): GraphEdge<T> | undefined {
+    // Ensure both nodes exist before adding edge
+    const missing = this.missingKey(from, to);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `Cannot add directed weighted edge: Source (${
+            this.keyOf(from)
+          }) or target (${this.keyOf(to)}) node not found.`,
+        ),
+        undefined,
+      );
+    }
+
+    // Add weighted edge from 'from' to 'to' in the adjacency list
+    return this.insertEdge(
+      true,
+      from,
+      to,
+      weight,
+      options,
+      `Added directed weighted edge from ${this.keyOf(from)} to ${
+        this.keyOf(to)
+      } with weight ${weight}`,
+    );
+  }
+
+  /**
+   * Removes the directed edge from one node to another.
+   * Parallel edges between the same pair of nodes are all removed.
+   * @param from The data of the source node. Must implement `DataShapeWithValue`.
+   * @param to The data of the target node. Must implement `DataShapeWithValue`.
+   * @returns `true` if an edge was removed, `false` if there was none.
+   */
+  removeEdge(from: T, to: T): boolean {
+    const removed = this.removeArcs(from, to);
+    const source = this.nodeMap.get(this.keyOf(from))!;
+    for (const edge of removed) {
+      this.emit("edgeRemoved", this.edgeEvent(source, edge));
+    }
+    return removed.length > 0;
+  }
+
+  /**
+   * Changes the weight of the directed edge from one node to another.
+   * Parallel edges between the same pair of nodes are all updated.
+   * @param from The data of the source node. Must implement `DataShapeWithValue`.
+   * @param to The data of the target node. Must implement `DataShapeWithValue`.
+   * @param weight The new weight of the edge.
+   * @returns `true` if an edge was updated, `false` if there was none.
+   */
+  updateEdgeWeight(from: T, to: T, weight: number): boolean {
+    return this.reweightArcs(from, to, weight);
+  }
+
+  /**
+   * Counts the directed edges in the graph.
+   * @returns The number of edges.
+   */
+  edgeCount(): number {
+    let count = 0;
+    for (const edges of this.adjacencyList.values()) {
+      count += edges.length;
+    }
+    return count;
+  }
+
+  /**
+   * Counts the edges touching a node in either direction (in-degree plus out-degree).
+   * @param data The data of the node. Must implement `DataShapeWithValue`.
+   * @returns The degree of the node, or `undefined` if the node is not found.
+   */
+  degree(data: T): number | undefined {
+    const incoming = this.inDegree(data);
+    return incoming === undefined
+      ? undefined
+      : incoming + this.outDegree(data)!;
+  }
+
+  /**
+   * Creates the transpose (reverse) of the graph: every edge points the other way and keeps
+   * its ID, weight, label and attributes. Strongly connected components are unchanged, while
+   * reachability is reversed.
+   * @returns A new graph of the same class and options.
+   */
+  transpose(): this {
+    const reversed = this.emptyCopy(this.nodes);
+    for (const node of this.nodes) {
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        this.copyArc(reversed, edge.target, node, edge, edge.id, {
+          ...edge.attributes,
+        });
+      }
+    }
+    return reversed;
+  }
+
+  /**
+   * Implements the Bellman-Ford algorithm to find the shortest paths from a start node
+   * to all other reachable nodes. Unlike `dijkstra`, negative edge weights are allowed.
+   * Runs in O(V * E), stopping early once a full pass makes no improvement.
+   * Unweighted edges count as 1.
+   *
+   * If a negative-weight cycle is reachable from the start node, shortest paths are
+   * undefined; the cycle is reported in `negativeCycle` and the returned maps should
+   * not be relied upon.
+   *
+   * @param startNodeData The data of the node to start the algorithm from. Must implement `DataShapeWithValue`.
+   * @returns An object containing:
+   *          - distances: A Map from node key to the shortest distance from the start node. Infinity if unreachable.
+   *          - predecessors: A Map from node key to the predecessor node on the shortest path, or null.
+   *          - negativeCycle: The nodes of a negative-weight cycle in edge order (the last node links back to the first), or `null` if there is none.
+   * @throws {NodeNotFoundError} In strict mode, if the start node is not in the graph.
+   */
+  bellmanFord(startNodeData: T): {
+    distances: Map<NodeKey, number>;
+    predecessors: Map<NodeKey, T | null>;
+    negativeCycle: T[] | null;
+  } {
+    if (!this.hasNode(startNodeData)) {
+      return this.fail(
+        new NodeNotFoundError(
+          this.keyOf(startNodeData),
+          `Bellman-Ford failed: Start node with data ${
+            this.keyOf(startNodeData)
+          } not found.`,
+        ),
+        { distances: new Map(), predecessors: new Map(), negativeCycle: null },
+      );
+    }
+
+    const distances: Map<NodeKey, number> = new Map();
+    for (const node of this.nodes) {
+      distances.set(this.keyOf(node), Infinity);
+    }
+    distances.set(this.keyOf(startNodeData), 0);
+
+    return this.bellmanFordSearch(distances);
+  }
+
+  /**
+   * Implements Johnson's algorithm to find the shortest paths between every pair of nodes
+   * in a sparse graph that may contain negative edge weights (but no negative cycles).
+   * Bellman-Ford computes a potential for each node, which is used to reweight every edge
+   * to a non-negative value; Dijkstra is then run from each node on the reweighted graph.
+   * Runs in O(V * E log V). Unweighted edges count as 1.
+   *
+   * @returns An object containing, for every source node key:
+   *          - distances: A Map from source key to a Map of target key to shortest distance (Infinity if unreachable).
+   *          - predecessors: A Map from source key to a Map of target key to predecessor node, or null.
+   *          Returns `null` if the graph contains a negative-weight cycle.
+   * @throws {NegativeCycleError} In strict mode, if the graph contains a negative-weight cycle.
+   */
+  johnson(): {
+    distances: Map<NodeKey, Map<NodeKey, number>>;
+    predecessors: Map<NodeKey, Map<NodeKey, T | null>>;
+  } | null {
+    // Starting every node at 0 is equivalent to adding a virtual source
+    // with a zero-weight edge to each node, without mutating the graph.
+    const initial: Map<NodeKey, number> = new Map();
+    for (const node of this.nodes) {
+      initial.set(this.keyOf(node), 0);
+    }
+
+    const { distances: potential, negativeCycle } = this.bellmanFordSearch(
+      initial,
+    );
+    if (negativeCycle) {
+      return this.fail(
+        new NegativeCycleError(
+          "Johnson failed: Graph contains a negative-weight cycle.",
+        ),
+        null,
+      );
+    }
+
+    // w'(u, v) = w(u, v) + h(u) - h(v) is non-negative; clamp rounding noise
+    const reweight = (from: T, edge: GraphEdge<T>): number =>
+      Math.max(
+        0,
+        (edge.weight ?? 1) + potential.get(this.keyOf(from))! -
+          potential.get(this.keyOf(edge.target))!,
+      );
+
+    const distances: Map<NodeKey, Map<NodeKey, number>> = new Map();
+    const predecessors: Map<NodeKey, Map<NodeKey, T | null>> = new Map();
+
+    for (const source of this.nodes) {
+      const result = this.dijkstraSearch(source, null, reweight)!;
+      const sourcePotential = potential.get(this.keyOf(source))!;
+
+      // Undo the reweighting to recover the original path costs
+      const sourceDistances: Map<NodeKey, number> = new Map();
+      for (const [key, distance] of result.distances) {
+        sourceDistances.set(
+          key,
+          distance === Infinity
+            ? Infinity
+            : distance - sourcePotential + potential.get(key)!,
+        );
+      }
+
+      distances.set(this.keyOf(source), sourceDistances);
+      predecessors.set(this.keyOf(source), result.predecessors);
+    }
+
+    return { distances, predecessors };
+  }
+
+  /**
+   * Orders the nodes so that every edge points from an earlier node to a later one,
+   * using Kahn's algorithm. Nodes with no remaining dependencies are emitted in the
+   * order they were added to the graph. Runs in O(V + E).
+   *
+   * @returns The nodes in topological order.
+   * @throws {CycleError} If the graph contains a cycle; the error carries one concrete cycle.
+   */
+  topologicalSort(): T[] {
+    const ready: T[] = [];
+    let head = 0;
+    return this.kahn({
+      push: (node) => ready.push(node),
+      pop: () => (head < ready.length ? ready[head++] : undefined),
+    });
+  }
+
+  /**
+   * Orders the nodes topologically like `topologicalSort`, but whenever several nodes
+   * are ready at once the one with the smallest `value` is emitted first. The result is
+   * therefore the lexicographically smallest order by `value`, independent of the order
+   * in which nodes and edges were added. Runs in O((V + E) log V).
+   *
+   * @returns The nodes in topological order.
+   * @throws {CycleError} If the graph contains a cycle; the error carries one concrete cycle.
+   */
+  stableTopologicalSort(): T[] {
+    const ready = new PriorityQueue<T>((a, b) => a.value - b.value);
+    return this.kahn({
+      push: (node) => ready.push(node),
+      pop: () => ready.pop(),
+    });
+  }
+
+  /**
+   * Checks whether the graph contains a directed cycle (including self-loops).
+   * @returns `true` if at least one cycle exists, `false` if the graph is acyclic.
+   */
+  hasCycle(): boolean {
+    return this.findCycle() !== null;
+  }
+
+  /**
+   * Finds one directed cycle in the graph using an iterative depth-first search.
+   *
+   * @returns The nodes of a cycle in edge order (the last node links back to the first),
+   *          or `null` if the graph is acyclic.
+   */
+  findCycle(): T[] | null {
+    // Nodes absent from `state` are unvisited; "active" nodes are on the current DFS path
+    const state: Map<NodeKey, "active" | "done"> = new Map();
+
+    for (const root of this.nodes) {
+      if (state.has(this.keyOf(root))) continue;
+
+      const path: T[] = [root];
+      const edgeIndex: number[] = [0];
+      const position: Map<NodeKey, number> = new Map([[this.keyOf(root), 0]]);
+      state.set(this.keyOf(root), "active");
+
+      while (path.length > 0) {
+        const current = path[path.length - 1];
+        const edges = this.adjacencyList.get(this.keyOf(current))!;
+        const i = edgeIndex[edgeIndex.length - 1]++;
+
+        if (i >= edges.length) {
+          // All descendants explored: leave the current path
+          state.set(this.keyOf(current), "done");
+          position.delete(this.keyOf(current));
+          path.pop();
+          edgeIndex.pop();
+          continue;
+        }
+
+        const next = edges[i].target;
+        const nextState = state.get(this.keyOf(next));
+        if (nextState === "active") {
+          // Back edge: the cycle is the path segment starting at `next`
+          return path.slice(position.get(this.keyOf(next))!);
+        }
+        if (nextState === undefined) {
+          state.set(this.keyOf(next), "active");
+          position.set(this.keyOf(next), path.length);
+          path.push(next);
+          edgeIndex.push(0);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the strongly connected components of the graph using Tarjan's algorithm.
+   * Every node belongs to exactly one component; within a component every node can
+   * reach every other. The search is iterative, so deep graphs do not overflow the
+   * call stack. Runs in O(V + E).
+   *
+   * @returns The components in topological order of the condensation graph (a component
+   *          only has edges to components listed after it). Nodes inside each component
+   *          keep the order in which they were added to the graph.
+   */
+  stronglyConnectedComponents(): T[][] {
+    const order: Map<NodeKey, number> = new Map();
+    this.nodes.forEach((node, i) => order.set(this.keyOf(node), i));
+
+    const index: Map<NodeKey, number> = new Map();
+    const lowLink: Map<NodeKey, number> = new Map();
+    const onStack: Set<NodeKey> = new Set();
+    const stack: T[] = [];
+    const components: T[][] = [];
+    let counter = 0;
+
+    for (const root of this.nodes) {
+      if (index.has(this.keyOf(root))) continue;
+
+      // Explicit call stack of (node, next edge to inspect)
+      const callStack: { node: T; edge: number }[] = [{ node: root, edge: 0 }];
+      index.set(this.keyOf(root), counter);
+      lowLink.set(this.keyOf(root), counter++);
+      stack.push(root);
+      onStack.add(this.keyOf(root));
+
+      while (callStack.length > 0) {
+        const frame = callStack[callStack.length - 1];
+        const edges = this.adjacencyList.get(this.keyOf(frame.node))!;
+
+        if (frame.edge < edges.length) {
+          const next = edges[frame.edge++].target;
+          if (!index.has(this.keyOf(next))) {
+            index.set(this.keyOf(next), counter);
+            lowLink.set(this.keyOf(next), counter++);
+            stack.push(next);
+            onStack.add(this.keyOf(next));
+            callStack.push({ node: next, edge: 0 });
+          } else if (onStack.has(this.keyOf(next))) {
+            lowLink.set(
+              this.keyOf(frame.node),
+              Math.min(
+                lowLink.get(this.keyOf(frame.node))!,
+                index.get(this.keyOf(next))!,
+              ),
+            );
+          }
+          continue;
+        }
+
+        // All edges explored: close the frame and propagate the low-link upwards
+        callStack.pop();
+        const key = this.keyOf(frame.node);
+        if (callStack.length > 0) {
+          const parent = this.keyOf(callStack[callStack.length - 1].node);
+          lowLink.set(
+            parent,
+            Math.min(lowLink.get(parent)!, lowLink.get(key)!),
+          );
+        }
+
+        if (lowLink.get(key) === index.get(key)) {
+          const component: T[] = [];
+          let member: T;
+          do {
+            member = stack.pop()!;
+            onStack.delete(this.keyOf(member));
+            component.push(member);
+          } while (this.keyOf(member) !== key);
+          component.sort((a, b) =>
+            order.get(this.keyOf(a))! - order.get(this.keyOf(b))!
+          );
+          components.push(component);
+        }
+      }
+    }
+
+    // Tarjan emits components in reverse topological order
+    return components.reverse();
+  }
+
+  /**
+   * Builds the condensation of the graph: a new `Directed` graph with one node per
+   * strongly connected component and an unweighted edge between two components whenever
+   * any edge connects their members. The result is always acyclic, so it can be passed
+   * to `topologicalSort`. It keeps this graph's `strict` mode and `logger`; its nodes use
+   * the default `keyOf`, since they are new component records.
+   *
+   * @returns A new directed acyclic graph whose node `value`s are the component indices
+   *          from `stronglyConnectedComponents()` and whose `members` list the original nodes.
+   */
+  condensation(): Directed<ComponentData<T>> {
+    const components = this.stronglyConnectedComponents();
+    const componentOf: Map<NodeKey, number> = new Map();
+    const dag = new Directed<ComponentData<T>>({
+      strict: this.strict,
+      logger: this.logger,
+    });
+
+    const componentNodes = components.map((members, i) => {
+      for (const member of members) componentOf.set(this.keyOf(member), i);
+      const data: ComponentData<T> = { value: i, members };
+      dag.addNode(data);
+      return data;
+    });
+
+    const linked: Set<string> = new Set();
+    for (const node of this.nodes) {
+      const from = componentOf.get(this.keyOf(node))!;
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        const to = componentOf.get(this.keyOf(edge.target))!;
+        const key = `${from}->${to}`;
+        if (from !== to && !linked.has(key)) {
+          linked.add(key);
+          dag.addEdge(componentNodes[from], componentNodes[to]);
+        }
+      }
+    }
+
+    return dag;
+  }
+
+  /**
+   * Finds the weakly connected components of the graph: groups of nodes that are
+   * connected when edge directions are ignored. Runs in near-linear time.
+   * @returns The components ordered by their earliest-added node; nodes keep insertion order.
+   */
+  weaklyConnectedComponents(): T[][] {
+    return this.linkedComponents();
+  }
+
+  /**
+   * Computes the maximum flow from a source to a sink, treating each edge weight as the
+   * edge's capacity (unweighted edges have capacity 1), and derives the minimum cut.
+   * The graph itself is not modified; all work happens on a separate residual network.
+   *
+   * @param source The data of the node the flow leaves from. Must implement `DataShapeWithValue`.
+   * @param sink The data of the node the flow arrives at. Must implement `DataShapeWithValue`.
+   * @param options.algorithm `"dinic"` (default, O(V^2 E)) or `"edmonds-karp"` (O(V E^2)).
+   * @returns The flow value, the flow assigned to every edge, and the minimum cut,
+   *          or `null` if a node is missing, source and sink coincide, or a capacity is negative.
+   * @throws {GraphError} In strict mode, if a node is missing (`NodeNotFoundError`), source and sink coincide, or a capacity is negative (`NegativeWeightError`).
+   */
+  maxFlow(
+    source: T,
+    sink: T,
+    options: { algorithm?: "edmonds-karp" | "dinic" } = {},
+  ): MaxFlowResult<T> | null {
+    const missing = this.missingKey(source, sink);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `Max flow failed: Source (${this.keyOf(source)}) or sink (${
+            this.keyOf(sink)
+          }) node not found.`,
+        ),
+        null,
+      );
+    }
+    if (this.keyOf(source) === this.keyOf(sink)) {
+      return this.fail(
+        new GraphError(
+          "Max flow failed: Source and sink must be different nodes.",
+        ),
+        null,
+      );
+    }
+
+    const index: Map<NodeKey, number> = new Map();
+    this.nodes.forEach((node, i) => index.set(this.keyOf(node), i));
+
+    const network = new FlowNetwork(this.nodes.length);
+    const arcs: { from: T; to: T; capacity: number; arc: number }[] = [];
+    for (const node of this.nodes) {
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        const capacity = edge.weight ?? 1;
+        if (capacity < 0) {
+          return this.fail(
+            new NegativeWeightError(
+              capacity,
+              "Max flow requires non-negative edge capacities. Found negative weight.",
+            ),
+            null,
+          );
+        }
+        const arc = network.addArc(
+          index.get(this.keyOf(node))!,
+          index.get(this.keyOf(edge.target))!,
+          capacity,
+        );
+        arcs.push({ from: node, to: edge.target, capacity, arc });
+      }
+    }
+
+    const s = index.get(this.keyOf(source))!;
+    const t = index.get(this.keyOf(sink))!;
+    const value = options.algorithm === "edmonds-karp"
+      ? network.edmondsKarp(s, t)
+      : network.dinic(s, t);
+
+    // Nodes still reachable in the residual network form the source side of a minimum cut
+    const reachable = network.reachableFrom(s);
+    const sourceSide = this.nodes.filter((_node, i) => reachable[i]);
+
+    const flows = arcs.map(({ from, to, capacity, arc }) => ({
+      from,
+      to,
+      capacity,
+      flow: network.flowOn(arc),
+    }));
+    const cutEdges = flows
+      .filter(
+        ({ from, to }) =>
+          reachable[index.get(this.keyOf(from))!] &&
+          !reachable[index.get(this.keyOf(to))!],
+      )
+      .map(({ from, to, capacity }) => ({ from, to, capacity }));
+
+    return { value, flows, minCut: { sourceSide, edges: cutEdges } };
+  }
+
+  /**
+   * Computes the betweenness centrality of every node with Brandes' algorithm: the share of
+   * shortest paths between other pairs of nodes that pass through it.
+   * @param options.weighted When `true`, shortest paths use edge weights (unweighted edges count as 1);
+   *                         otherwise every edge counts as 1. Defaults to `false`.
+   * @param options.normalized When `true` (default), scores are divided by `(n - 1)(n - 2)`,
+   *                           the number of ordered pairs of other nodes.
+   * @returns A Map from node key to betweenness, in node insertion order,
+   *          or an empty Map if a weighted run finds a negative weight.
+   * @throws {NegativeWeightError} In strict mode, if a weighted run finds a negative weight.
+   */
+  betweennessCentrality(
+    options: { weighted?: boolean; normalized?: boolean } = {},
+  ): Map<NodeKey, number> {
+    return this.brandes(true, options);
+  }
+
+  /**
+   * Computes the degree centrality of every node: its degree divided by `n - 1`.
+   * @param options.direction Which edges to count: `"in"`, `"out"` or `"both"` (default).
+   * @returns A Map from node key to degree centrality, in node insertion order.
+   */
+  degreeCentrality(
+    options: { direction?: "in" | "out" | "both" } = {},
+  ): Map<NodeKey, number> {
+    const direction = options.direction ?? "both";
+    const incoming: Map<NodeKey, number> = new Map();
+    for (const edges of this.adjacencyList.values()) {
+      for (const edge of edges) {
+        const key = this.keyOf(edge.target);
+        incoming.set(key, (incoming.get(key) ?? 0) + 1);
+      }
+    }
+
+    return this.scaledDegrees((node) =>
+      (direction === "out" ? 0 : incoming.get(this.keyOf(node)) ?? 0) +
+      (direction === "in" ? 0 : this.outDegree(node)!)
+    );
+  }
+
+  /**
+   * Finds an Eulerian path with Hierholzer's algorithm: a walk that follows every edge exactly
+   * once. One exists when the edges are connected and every node has as many incoming as outgoing
+   * edges, except that the start may have one extra outgoing edge and the end one extra incoming edge.
+   * Runs in O(V + E).
+   * @returns The nodes along the path (a node appears once per visit), an empty array if the graph
+   *          has no edges, or `null` if there is no Eulerian path.
+   */
+  eulerianPath(): T[] | null {
+    return this.hierholzer(true, false);
+  }
+
+  /**
+   * Finds an Eulerian circuit with Hierholzer's algorithm: a walk that follows every edge exactly
+   * once and returns to its start. One exists when the edges are connected and every node has as
+   * many incoming as outgoing edges. Runs in O(V + E).
+   * @returns The nodes along the circuit, starting and ending at the same node, an empty array if
+   *          the graph has no edges, or `null` if there is no Eulerian circuit.
+   */
+  eulerianCircuit(): T[] | null {
+    return this.hierholzer(true, true);
+  }
+
+  /**
+   * Core of Kahn's algorithm shared by `topologicalSort` and `stableTopologicalSort`.
+   * @param ready The container holding nodes whose dependencies have all been emitted;
+   *              its `pop` order decides how ties are broken.
+   * @returns The nodes in topological order.
+   * @throws {CycleError} If some nodes could not be emitted because of a cycle.
+   */
+  private kahn(ready: { push(node: T): void; pop(): T | undefined }): T[] {
+    const inDegree: Map<NodeKey, number> = new Map();
+    for (const node of this.nodes) {
+      inDegree.set(this.keyOf(node), 0);
+    }
+    for (const node of this.nodes) {
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        inDegree.set(
+          this.keyOf(edge.target),
+          inDegree.get(this.keyOf(edge.target))! + 1,
+        );
+      }
+    }
+
+    for (const node of this.nodes) {
+      if (inDegree.get(this.keyOf(node)) === 0) ready.push(node);
+    }
+
+    const order: T[] = [];
+    let current = ready.pop();
+    while (current !== undefined) {
+      order.push(current);
+      for (const edge of this.adjacencyList.get(this.keyOf(current))!) {
+        const remaining = inDegree.get(this.keyOf(edge.target))! - 1;
+        inDegree.set(this.keyOf(edge.target), remaining);
+        if (remaining === 0) ready.push(edge.target);
+      }
+      current = ready.pop();
+    }
+
+    if (order.length < this.nodes.length) {
+      throw new CycleError(this.findCycle()!, this.keyOf);
+    }
+
+    return order;
+  }
+
+  /**
+   * Core of the Bellman-Ford algorithm shared by `bellmanFord` and `johnson`.
+   * @param distances Initial distance of every node; relaxed in place.
+   * @returns The relaxed distances, the predecessors map, and a negative cycle if one was detected.
+   */
+  private bellmanFordSearch(distances: Map<NodeKey, number>): {
+    distances: Map<NodeKey, number>;
+    predecessors: Map<NodeKey, T | null>;
+    negativeCycle: T[] | null;
+  } {
+    const predecessors: Map<NodeKey, T | null> = new Map();
+    for (const node of this.nodes) {
+      predecessors.set(this.keyOf(node), null);
+    }
+
+    // Relaxes every edge once; returns the target of the last improved edge, if any
+    const relaxAll = (): T | null => {
+      let updated: T | null = null;
+      for (const node of this.nodes) {
+        const distance = distances.get(this.keyOf(node))!;
+        if (distance === Infinity) continue;
+
+        for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+          const newDistance = distance + (edge.weight ?? 1);
+          if (newDistance < distances.get(this.keyOf(edge.target))!) {
+            distances.set(this.keyOf(edge.target), newDistance);
+            predecessors.set(this.keyOf(edge.target), node);
+            updated = edge.target;
+          }
+        }
+      }
+      return updated;
+    };
+
+    // After V - 1 passes every shortest path is final unless a negative cycle exists
+    for (let i = 0; i < this.nodes.length - 1; i++) {
+      if (relaxAll() === null) {
+        return { distances, predecessors, negativeCycle: null };
+      }
+    }
+
+    let cycleNode = relaxAll();
+    if (cycleNode === null) {
+      return { distances, predecessors, negativeCycle: null };
+    }
+
+    // Walking back V steps is guaranteed to land inside the cycle
+    for (let i = 0; i < this.nodes.length; i++) {
+      cycleNode = predecessors.get(this.keyOf(cycleNode))!;
+    }
+
+    const negativeCycle: T[] = [cycleNode];
+    let current = predecessors.get(this.keyOf(cycleNode))!;
+    while (this.keyOf(current) !== this.keyOf(cycleNode)) {
+      negativeCycle.push(current);
+      current = predecessors.get(this.keyOf(current))!;
+    }
+
+    return { distances, predecessors, negativeCycle: negativeCycle.reverse() };
+  }
+}
+
+/**
+ * Represents an Unidirected Graph.
+ * Edges in an unidirected graph connect two nodes symmetrically, implying traversal is possible in both directions.
+ * Node data must implement the `DataShapeWithValue` interface.
+ */
+export class Unidirected<
+  T extends DataShapeWithValue,
+> extends CommonGraphMethods<T> {
+  /**
+   * Constructs a new Unidirected Graph.
+   * @param options Optional graph options, such as a custom `keyOf` for node identity.
+   */
+  constructor(options: GraphOptions<T> = {}) {
+    super(options);
+    this.logger.info("Created an Unidirected Graph");
+  }
+
+  /**
+   * Rebuilds an unidirected graph from a DOT document such as the ones produced by `toDOT`.
+   * Edge labels that are numbers become edge weights. Only plain node and edge statements
+   * are supported; attribute defaults and graph attributes are ignored.
+   * @param dot The DOT source, which must declare a `graph`.
+   * @param toData Optional function creating node data from a node ID and its attributes.
+   *               By default the ID is parsed as the node `value` and any `label` is kept, which
+   *               needs the default `keyOf`; pass `toData` when using a custom one.
+   * @param options Optional graph options for the new graph, such as a custom `keyOf`.
+   * @returns A new Unidirected graph.
+   * @throws {Error} If the document is malformed, is not a `graph`, or a node ID is not numeric,
+   *                 or if `toData` is missing while `options.keyOf` is set.
+   */
+  static fromDOT<U extends DataShapeWithValue = DataShapeWithValue>(
+    dot: string,
+    toData?: (id: string, attributes: DotAttributes) => U,
+    options: GraphOptions<U> = {},
+  ): Unidirected<U> {
+    const document = parseDOT(dot);
+    if (document.directed) {
+      throw new Error("Invalid DOT: expected a graph for an Unidirected graph");
+    }
+    return populateFromDOT(
+      new Unidirected<U>(options),
+      document,
+      toData,
+      options,
+    );
+  }
+
+  /**
+   * Renders the graph as a Graphviz DOT `graph` document, listing each edge once.
+   * Node IDs are the node keys; edge weights become edge labels.
+   * @param options Optional rendering options, see `DotOptions`.
+   * @returns The DOT document.
+   */
+  toDOT(options: DotOptions<T> = {}): string {
+    return this.renderDOT(false, options);
+  }
+
+  /**
+   * Rebuilds an unidirected graph from its JSON representation (see `GraphJSON`).
+   * @param json The JSON text, or an already parsed `GraphJSON` object.
+   * @param options Optional graph options for the new graph. Pass the `keyOf` the graph was saved with.
+   * @returns A new Unidirected graph.
+   * @throws {Error} If the JSON is malformed, has an unsupported version, describes a
+   *                 directed graph, or an edge references an unknown node.
+   */
+  static fromJSON<U extends DataShapeWithValue>(
+    json: string | GraphJSON<U>,
+    options: GraphOptions<U> = {},
+  ): Unidirected<U> {
+    const document = parseGraphJSON<U>(json);
+    if (document.directed) {
+      throw new Error(
+        "Invalid graph JSON: expected an unidirected graph for an Unidirected graph",
+      );
+    }
+    return populateFromJSON(new Unidirected<U>(options), document);
+  }
+
+  /**
+   * Rebuilds an unidirected graph from a delimited edge list (see `EdgeListOptions`).
+   * @param text The edge list text.
+   * @param options Parsing options. Pass `nodes` to attach full node records, matched by their key.
+   *                Without `nodes`, plain `{ value }` nodes are created, which needs the default `keyOf`.
+   * @returns A new Unidirected graph.
+   * @throws {Error} If a row is malformed or references a node missing from `options.nodes`,
+   *                 or if `options.nodes` is missing while `options.keyOf` is set.
+   */
+  static fromEdgeList<U extends DataShapeWithValue = DataShapeWithValue>(
+    text: string,
+    options: EdgeListOptions & GraphOptions<U> & { nodes?: U[] } = {},
+  ): Unidirected<U> {
+    return populateFromEdgeList(new Unidirected<U>(options), text, options);
+  }
+
+  /**
+   * Returns the versioned JSON representation of the graph (see `GraphJSON`).
+   * `JSON.stringify(graph)` uses this method automatically.
+   * @returns The graph as a `GraphJSON` object.
+   */
+  toJSON(): GraphJSON<T> {
+    return this.serializeJSON(false);
+  }
+
+  /**
+   * Writes the graph as a delimited edge list with one `from, to, weight` row per edge
+   * (each unidirected edge once), using node keys as IDs. Nodes without edges are not included.
+   * @param options Formatting options, see `EdgeListOptions`.
+   * @returns The edge list text.
+   */
+  toEdgeList(options: EdgeListOptions = {}): string {
+    return this.writeEdgeList(false, options);
+  }
+
+  /**
+   * Adds an unweighted unidirected edge between two nodes.
+   * This creates symmetric edges in the adjacency list (from `from` to `to`, and from `to` to `from`).
+   * Nodes must already exist in the graph.
+   * @param from The data of one node involved in the edge. Must implement `DataShapeWithValue`.
+   * @param to The data of the other node involved in the edge. Must implement `DataShapeWithValue`.
+   * @param options Optional label and attributes of the edge.
+   * @returns The new edge leaving `from`, the existing edge it was merged into
+   *          (see `GraphOptions.duplicateEdges`), or `undefined` if it was not added.
+   * @throws {GraphError} In strict mode, if either node is not in the graph (`NodeNotFoundError`)
+   *                      or the edge breaks the `multigraph` or `selfLoops` policy.
+   */
+  addEdge(from: T, to: T, options: EdgeOptions = {}): GraphEdge<T> | undefined {
+    // Ensure both nodes exist before adding edge
+    const missing = this.missingKey(from, to);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `Cannot add unidirected edge: Node with data ${this.keyOf(from)} or ${
+            this.keyOf(to)
+          } not found.`,
+        ),
+        undefined,
+      );
+    }
+
+    // Add edge from 'from' to 'to' AND from 'to' to 'from'
+    return this.insertEdge(
+      false,
+      from,
+      to,
+      undefined,
+      options,
+      `Added unidirected edge between ${this.keyOf(from)} and ${
+        this.keyOf(to)
+      }`,
+    );
+  }
+
+  /**
+   * Adds a weighted unidirected edge between two nodes.
+   * This creates symmetric weighted edges in the adjacency list with the same weight.
+   * Nodes must already exist in the graph.
+   * @param from The data of one node involved in the edge. Must implement `DataShapeWithValue`.
+   * @param to The data of the other node involved in the edge. Must implement `DataShapeWithValue`.
+   * @param weight The weight of the edge.
+   * @param options Optional label and attributes of the edge.
+   * @returns The new edge leaving `from`, the existing edge it was merged into
+   *          (see `GraphOptions.duplicateEdges`), or `undefined` if it was not added.
+   * @throws {GraphError} In strict mode, if either node is not in the graph (`NodeNotFoundError`)
+   *                      or the edge breaks the `multigraph` or `selfLoops` policy.
+   */
+  addWeightedEdge(
+    from: T,
+    to: T,
+    weight: number,
+    options: EdgeOptions = {},
+  ): GraphEdge<T> | undefined {
+    // Ensure both nodes exist before adding edge
+    const missing = this.missingKey(from, to);
+    if (missing !== undefined) {
+      return this.fail(
+        new NodeNotFoundError(
+          missing,
+          `Cannot add unidirected weighted edge: Node with data ${
+            this.keyOf(from)
+          } or ${this.keyOf(to)} not found.`,
+        ),
+        undefined,
+      );
+    }
+
+    // Add weighted edge from 'from' to 'to' AND from 'to' to 'from',
+    // with the same weight in both directions
+    return this.insertEdge(
+      false,
+      from,
+      to,
+      weight,
+      options,
+      `Added unidirected weighted edge between ${this.keyOf(from)} and ${
+        this.keyOf(to)
+      } with weight ${weight}`,
+    );
+  }
+
+  /**
+   * Removes the unidirected edge between two nodes, in both directions.
+   * Parallel edges between the same pair of nodes are all removed.
+   * @param from The data of one node involved in the edge. Must implement `DataShapeWithValue`.
+   * @param to The data of the other node involved in the edge. Must implement `DataShapeWithValue`.
+   * @returns `true` if an edge was removed, `false` if there was none.
+   */
+  removeEdge(from: T, to: T): boolean {
+    const removed = this.removeArcs(from, to);
+    this.removeArcs(to, from);
+
+    // Both halves of a self-loop live in the same list; report each loop once
+    const source = this.nodeMap.get(this.keyOf(from))!;
+    const selfLoop = this.keyOf(from) === this.keyOf(to);
+    removed.forEach((edge, i) => {
+      if (selfLoop && i % 2 === 1) return;
+      this.emit("edgeRemoved", this.edgeEvent(source, edge));
+    });
+    return removed.length > 0;
+  }
+
+  /**
+   * Changes the weight of the unidirected edge between two nodes, keeping both directions in sync.
+   * Parallel edges between the same pair of nodes are all updated.
+   * @param from The data of one node involved in the edge. Must implement `DataShapeWithValue`.
+   * @param to The data of the other node involved in the edge. Must implement `DataShapeWithValue`.
+   * @param weight The new weight of the edge.
+   * @returns `true` if an edge was updated, `false` if there was none.
+   */
+  updateEdgeWeight(from: T, to: T, weight: number): boolean {
+    const updated = this.reweightArcs(from, to, weight);
+    this.reweightArcs(to, from, weight);
+    return updated;
+  }
+
+  /**
+   * Counts the unidirected edges in the graph. Each edge is counted once,
+   * even though it is stored in the adjacency lists of both of its nodes.
+   * @returns The number of edges.
+   */
+  edgeCount(): number {
+    let count = 0;
+    for (const edges of this.adjacencyList.values()) {
+      count += edges.length;
+    }
+    return count / 2;
+  }
+
+  /**
+   * Counts the edges touching a node. A self-loop counts twice.
+   * @param data The data of the node. Must implement `DataShapeWithValue`.
+   * @returns The degree of the node, or `undefined` if the node is not found.
+   */
+  degree(data: T): number | undefined {
+    return this.outDegree(data);
+  }
+
+  /**
+   * Computes a minimum spanning tree with Kruskal's or Prim's algorithm.
+   * If the graph is disconnected, a minimum spanning forest (one tree per connected
+   * component) is returned instead. Unweighted edges count as 1. Runs in O(E log E).
+   *
+   * @param options.algorithm `"kruskal"` (default) sorts all edges and joins components;
+   *                          `"prim"` grows each tree outward from a start node.
+   * @returns The chosen edges, their total weight, and a new `Unidirected` graph with the same
+   *          options, containing every node but only the chosen edges.
+   */
+  minimumSpanningTree(
+    options: { algorithm?: "kruskal" | "prim" } = {},
+  ): SpanningTree<T> {
+    const chosen = options.algorithm === "prim"
+      ? this.primEdges()
+      : this.kruskalEdges();
+
+    const tree = new Unidirected<T>(this.graphOptions());
+    for (const node of this.nodes) {
+      tree.addNode(node);
+    }
+
+    let totalWeight = 0;
+    const edges = chosen.map(({ from, edge }) => {
+      const details = { label: edge.label, attributes: edge.attributes };
+      if (edge.weight === undefined) {
+        tree.addEdge(from, edge.target, details);
+      } else {
+        tree.addWeightedEdge(from, edge.target, edge.weight, details);
+      }
+      const weight = edge.weight ?? 1;
+      totalWeight += weight;
+      return { from, to: edge.target, weight };
+    });
+
+    return { edges, totalWeight, tree };
+  }
+
+  /**
+   * Finds the connected components of the graph: groups of nodes that can reach
+   * each other. Runs in near-linear time.
+   * @returns The components ordered by their earliest-added node; nodes keep insertion order.
+   */
+  connectedComponents(): T[][] {
+    return this.linkedComponents();
+  }
+
+  /**
+   * Measures how well a partition splits the graph into communities: the share of edge weight
+   * inside communities minus the share expected if edges were placed at random.
+   * Unweighted edges count as 1.
+   * @param partition Maps node keys to communities. Nodes missing from it form a community of their own.
+   * @param options.resolution Scales the expected share; defaults to 1.
+   * @returns The modularity, or 0 for a graph without edges or with a negative edge weight.
+   * @throws {NegativeWeightError} In strict mode, if an edge has a negative weight.
+   */
+  modularity(
+    partition: Map<NodeKey, number>,
+    options: { resolution?: number } = {},
+  ): number {
+    const links = this.communityLinks();
+    if (!links) return 0;
+    const labels = this.nodes.map((node, i) => {
+      const community = partition.get(this.keyOf(node));
+      return community === undefined ? `node ${i}` : `community ${community}`;
+    });
+    return this.scorePartition(links, labels, options.resolution ?? 1);
+  }
+
+  /**
+   * Detects communities by label propagation: every node starts in its own community and
+   * repeatedly joins the community with the most edge weight among its neighbours, until no
+   * node changes. Ties are broken at random, preferring the node's current community.
+   * Fast (near-linear per round) but less thorough than `louvain`. Unweighted edges count as 1.
+   *
+   * @param options.seed Seeds the visiting order and tie-breaking for reproducible results.
+   * @param options.resolution Used when scoring the result's modularity; defaults to 1.
+   * @param options.maxIterations The maximum number of rounds over all nodes; defaults to 100.
+   * @returns The partition and its modularity, or an empty partition if an edge has a negative weight.
+   * @throws {NegativeWeightError} In strict mode, if an edge has a negative weight.
+   */
+  labelPropagation(
+    options: CommunityOptions & { maxIterations?: number } = {},
+  ): CommunityResult {
+    const links = this.communityLinks();
+    if (!links) return { partition: new Map(), modularity: 0 };
+    const random = createRandom(options.seed);
+    const maxIterations = options.maxIterations ?? 100;
+    const labels = this.nodes.map((_, i) => i);
+    const order = labels.slice();
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      let changed = false;
+      for (const node of shuffle(order, random)) {
+        const votes: Map<number, number> = new Map();
+        for (const [neighbor, weight] of links[node]) {
+          if (neighbor === node) continue;
+          const label = labels[neighbor];
+          votes.set(label, (votes.get(label) ?? 0) + weight);
+        }
+        if (votes.size === 0) continue;
+
+        const best = Math.max(...votes.values());
+        if (votes.get(labels[node]) === best) continue;
+        const winners = [...votes].filter(([, weight]) => weight === best);
+        labels[node] = winners[Math.floor(random() * winners.length)][0];
+        changed = true;
+      }
+      if (!changed) break;
+    }
+
+    return this.partitionResult(links, labels, options.resolution ?? 1);
+  }
+
+  /**
+   * Detects communities with the Louvain method: nodes are greedily moved to the neighbouring
+   * community that most increases modularity, then each community is merged into a single node
+   * and the process repeats on the smaller graph until no move helps.
+   * Usually finds higher-modularity partitions than `labelPropagation`. Unweighted edges count as 1.
+   *
+   * @param options.seed Seeds the order in which nodes are visited, for reproducible results.
+   * @param options.resolution Values above 1 favour smaller communities; defaults to 1.
+   * @returns The partition and its modularity, or an empty partition if an edge has a negative weight.
+   * @throws {NegativeWeightError} In strict mode, if an edge has a negative weight.
+   */
+  louvain(options: CommunityOptions = {}): CommunityResult {
+    const links = this.communityLinks();
+    if (!links) return { partition: new Map(), modularity: 0 };
+    const random = createRandom(options.seed);
+    const resolution = options.resolution ?? 1;
+
+    // membership[i] is the node of the current level that original node i has been merged into
+    const membership = this.nodes.map((_, i) => i);
+    let level = links;
+    while (true) {
+      const communities = louvainPass(level, resolution, random);
+      const count = Math.max(-1, ...communities) + 1;
+      if (count === level.length) break;
+
+      const merged: Map<number, number>[] = Array.from(
+        { length: count },
+        () => new Map(),
+      );
+      level.forEach((neighbors, node) => {
+        const from = merged[communities[node]];
+        for (const [neighbor, weight] of neighbors) {
+          const to = communities[neighbor];
+          from.set(to, (from.get(to) ?? 0) + weight);
+        }
+      });
+      membership.forEach((node, i) => membership[i] = communities[node]);
+      level = merged;
+    }
+
+    return this.partitionResult(links, membership, resolution);
+  }
+
   /**
-   * A map to quickly look up node data by its value.
+   * Computes the betweenness centrality of every node with Brandes' algorithm: the share of
+   * shortest paths between other pairs of nodes that pass through it.
+   * Each pair of nodes is counted once, whichever end the path starts from.
+   * @param options.weighted When `true`, shortest paths use edge weights (unweighted edges count as 1);
+   *                         otherwise every edge counts as 1. Defaults to `false`.
+   * @param options.normalized When `true` (default), scores are divided by `(n - 1)(n - 2) / 2`,
+   *                           the number of pairs of other nodes.
+   * @returns A Map from node key to betweenness, in node insertion order,
+   *          or an empty Map if a weighted run finds a negative weight.
+   * @throws {NegativeWeightError} In strict mode, if a weighted run finds a negative weight.
    */
-  protected nodeMap: Map<number, T>;
+  betweennessCentrality(
+    options: { weighted?: boolean; normalized?: boolean } = {},
+  ): Map<NodeKey, number> {
+    return this.brandes(false, options);
+  }
+
   /**
-   * Keep track of all nodes added to the graph.
+   * Computes the degree centrality of every node: its degree divided by `n - 1`.
+   * A self-loop counts twice, as in `degree`.
+   * @returns A Map from node key to degree centrality, in node insertion order.
    */
-  protected nodes: T[];
+  degreeCentrality(): Map<NodeKey, number> {
+    return this.scaledDegrees((node) => this.outDegree(node)!);
+  }
 
   /**
-   * Constructs a new CommonGraphMethods instance, initializing the adjacency list and nodes array.
+   * Finds an Eulerian path with Hierholzer's algorithm: a walk that uses every edge exactly once.
+   * One exists when the edges are connected and either no node or exactly two nodes (the ends)
+   * have an odd degree. Runs in O(V + E).
+   * @returns The nodes along the path (a node appears once per visit), an empty array if the graph
+   *          has no edges, or `null` if there is no Eulerian path.
    */
-  constructor() {
-    this.adjacencyList = new Map();
-    this.nodeMap = new Map();
-    this.nodes = [];
+  eulerianPath(): T[] | null {
+    return this.hierholzer(false, false);
   }
 
   /**
-   * Adds a node to the graph if it doesn't already exist.
-   * @param data The data for the new node. Must implement `DataShapeWithValue`.
+   * Finds an Eulerian circuit with Hierholzer's algorithm: a walk that uses every edge exactly
+   * once and returns to its start. One exists when the edges are connected and every node has
+   * an even degree (a self-loop counts twice). Runs in O(V + E).
+   * @returns The nodes along the circuit, starting and ending at the same node, an empty array if
+   *          the graph has no edges, or `null` if there is no Eulerian circuit.
    */
-  addNode(data: T): void {
-    // Use JSON.stringify for reliable Map key comparison with objects,
-    // or rely on object reference equality if T objects are reused.
-    // Let's assume object reference equality or unique data values for simplicity here.
-    if (!this.adjacencyList.has(data)) {
-      this.adjacencyList.set(data, []);
-      this.nodeMap.set(data.value, data); // Map value to node object
-      this.nodes.push(data);
-      // console.log(`Added node with data: ${data.value}`); // Assuming T has a value property - disable for cleaner output
-    } else {
-      // console.log(`Node with data: ${data.value} already exists.`); // disable for cleaner output
-    }
+  eulerianCircuit(): T[] | null {
+    return this.hierholzer(false, true);
   }
 
   /**
-   * Checks if a node with the given data exists in the graph.
-   * @param data The data of the node to check for existence. Must implement `DataShapeWithValue`.
-   * @returns true if the node exists, false otherwise.
+   * Finds the articulation points (cut vertices): nodes whose removal splits their
+   * connected component into more pieces. Uses an iterative depth-first search, so it
+   * works on very large graphs without exhausting the call stack. Runs in O(V + E).
+   * @returns The articulation points, in the order the nodes were added to the graph.
    */
-  hasNode(data: T): boolean {
-    return this.adjacencyList.has(data);
+  articulationPoints(): T[] {
+    return this.lowLinkSearch().articulationPoints;
   }
 
   /**
-   * Gets all nodes currently in the graph.
-   * @returns An array containing the data of all nodes in the graph.
+   * Finds the bridges: edges whose removal disconnects their connected component.
+   * Parallel edges between the same pair of nodes are never bridges.
+   * Uses an iterative depth-first search. Runs in O(V + E).
+   * @returns The bridges, each as the pair of nodes it connects.
    */
-  getNodes(): T[] {
-    return this.nodes;
+  bridges(): { from: T; to: T }[] {
+    return this.lowLinkSearch().bridges;
   }
 
   /**
-   * Gets the outgoing edges (neighbors) for a given node.
-   * @param data The data of the source node. Must implement `DataShapeWithValue`.
-   * @returns An array of `GraphEdge` objects representing the outgoing edges, or `undefined` if the node is not found.
+   * Finds the biconnected components: maximal groups of nodes that stay connected after
+   * removing any single node. Articulation points belong to several components, and every
+   * bridge forms a component of two nodes. Nodes without edges belong to no component.
+   * Uses an iterative depth-first search. Runs in O(V + E).
+   * @returns The components, each listing its nodes in the order they were added to the graph.
    */
-  getNeighbors(data: T): GraphEdge<T>[] | undefined {
-    return this.adjacencyList.get(data);
+  biconnectedComponents(): T[][] {
+    return this.lowLinkSearch().components;
   }
 
-  // addEdge and addWeightedEdge implementations differ for directed/undirected,
-  // so they are defined in the respective subclasses.
-
   /**
-   * Performs a Breadth-First Search (BFS) traversal starting from a given node.
-   * Visits nodes layer by layer.
-   * @param startNodeData The data of the node to start the traversal from. Must implement `DataShapeWithValue`.
-   * @param processNode A callback function to execute on the data of each visited node.
+   * Checks whether the nodes can be split into two sides so that every edge joins
+   * nodes on opposite sides, using a breadth-first two-coloring. Runs in O(V + E).
+   *
+   * @returns The two sides if the graph is bipartite (the first node of each component goes
+   *          to `left`), otherwise a cycle of odd length proving that it is not
+   *          (in edge order; the last node links back to the first).
    */
-  bfs(startNodeData: T, processNode: (data: T) => void): void {
-    if (!this.hasNode(startNodeData)) {
-      console.error(
-        `BFS failed: Start node with data ${startNodeData.value} not found.`,
-      );
-      return;
-    }
-
-    const visited: Set<number> = new Set();
-    const queue: T[] = []; // Using a simple array as a queue
-
-    // Start BFS from the given node
-    queue.push(startNodeData);
-    visited.add(startNodeData.value);
-
-    while (queue.length > 0) {
-      // Dequeue the next node data
-      const currentNodeData = queue.shift()!; // Use non-null assertion as we check queue.length
+  isBipartite(): BipartiteResult<T> {
+    const color: Map<NodeKey, 0 | 1> = new Map();
+    const parent: Map<NodeKey, T | null> = new Map();
+    const depth: Map<NodeKey, number> = new Map();
 
-      // Process the current node
-      processNode(currentNodeData);
+    for (const root of this.nodes) {
+      if (color.has(this.keyOf(root))) continue;
+      color.set(this.keyOf(root), 0);
+      parent.set(this.keyOf(root), null);
+      depth.set(this.keyOf(root), 0);
 
-      // Get neighbors and enqueue unvisited ones
-      const neighbors = this.getNeighbors(currentNodeData);
-      if (neighbors) {
-        for (const edge of neighbors) {
-          const neighborData = edge.target;
-          // Check if the neighbor has been visited using its value property
-          if (!visited.has(neighborData.value)) {
-            // Mark as visited *before* enqueuing
-            visited.add(neighborData.value);
-            // Enqueue the neighbor\'s data
-            queue.push(neighborData);
+      const queue: T[] = [root];
+      for (let head = 0; head < queue.length; head++) {
+        const node = queue[head];
+        for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+          const next = edge.target;
+          if (!color.has(this.keyOf(next))) {
+            color.set(
+              this.keyOf(next),
+              color.get(this.keyOf(node)) === 0 ? 1 : 0,
+            );
+            parent.set(this.keyOf(next), node);
+            depth.set(this.keyOf(next), depth.get(this.keyOf(node))! + 1);
+            queue.push(next);
+          } else if (
+            color.get(this.keyOf(next)) === color.get(this.keyOf(node))
+          ) {
+            return {
+              bipartite: false,
+              oddCycle: this.oddCycleThrough(node, next, parent, depth),
+            };
           }
         }
       }
     }
+
+    return {
+      bipartite: true,
+      left: this.nodes.filter((node) => color.get(this.keyOf(node)) === 0),
+      right: this.nodes.filter((node) => color.get(this.keyOf(node)) === 1),
+    };
   }
 
   /**
-   * Performs a Depth-First Search (DFS) traversal starting from a given node.
-   * Visits nodes by exploring as far as possible along each branch before backtracking.
-   * @param startNodeData The data of the node to start the traversal from. Must implement `DataShapeWithValue`.
-   * @param processNode A callback function to execute on the data of each visited node.
+   * Finds a maximum-cardinality matching in a bipartite graph using the Hopcroft-Karp
+   * algorithm. Runs in O(E sqrt(V)).
+   *
+   * @param options.left Optional nodes that form the left side (e.g. workers). When omitted,
+   *                     the sides from `isBipartite()` are used.
+   * @returns The matched pairs (left node first) and their count, or `null` if the graph is
+   *          not bipartite or `left` does not describe a valid bipartition.
+   * @throws {GraphError} In strict mode, if the graph is not bipartite or an edge does not cross the given sides.
    */
-  dfs(startNodeData: T, processNode: (data: T) => void): void {
-    if (!this.hasNode(startNodeData)) {
-      console.error(
-        `DFS failed: Start node with data ${startNodeData.value} not found.`,
-      );
-      return;
-    }
+  maximumBipartiteMatching(
+    options: { left?: T[] } = {},
+  ): { size: number; pairs: { left: T; right: T }[] } | null {
+    const sides = this.bipartiteSides(options.left);
+    if (!sides) return null;
 
-    const visited: Set<number> = new Set();
-    const stack: T[] = []; // Using a simple array as a stack
+    const { left, right, adjacency } = sides;
+    const matchLeft: number[] = new Array(left.length).fill(-1);
+    const matchRight: number[] = new Array(right.length).fill(-1);
+    const distance: number[] = new Array(left.length);
 
-    // Start DFS from the given node
-    stack.push(startNodeData);
+    // Layers the graph by alternating path length from the free left nodes
+    const buildLayers = (): boolean => {
+      const queue: number[] = [];
+      for (let u = 0; u < left.length; u++) {
+        distance[u] = matchLeft[u] === -1 ? 0 : Infinity;
+        if (distance[u] === 0) queue.push(u);
+      }
+      let found = false;
+      for (let head = 0; head < queue.length; head++) {
+        const u = queue[head];
+        for (const v of adjacency[u]) {
+          const w = matchRight[v];
+          if (w === -1) {
+            found = true;
+          } else if (distance[w] === Infinity) {
+            distance[w] = distance[u] + 1;
+            queue.push(w);
+          }
+        }
+      }
+      return found;
+    };
 
-    while (stack.length > 0) {
-      // Pop the next node data
-      const currentNodeData = stack.pop()!; // Use non-null assertion as we check stack.length
-
-      // Check if the node has been visited using its value property
-      if (!visited.has(currentNodeData.value)) {
-        // Mark as visited *before* processing
-        visited.add(currentNodeData.value);
-
-        // Process the current node
-        processNode(currentNodeData);
-
-        // Get neighbors and push unvisited ones onto the stack
-        // Iterate forwards to push in the order neighbors appear in the adjacency list,
-        // which results in processing in reverse order from the stack.
-        const neighbors = this.getNeighbors(currentNodeData);
-        if (neighbors) {
-          for (let i = 0; i < neighbors.length; i++) {
-            const neighborEdge = neighbors[i];
-            const neighborData = neighborEdge.target;
-            if (!visited.has(neighborData.value)) {
-              stack.push(neighborData);
+    // Iterative DFS for an augmenting path along the layers
+    const next: number[] = new Array(left.length).fill(0);
+    const augment = (root: number): boolean => {
+      const stack: number[] = [root];
+      const via: number[] = [];
+      while (stack.length > 0) {
+        const u = stack[stack.length - 1];
+        if (next[u] < adjacency[u].length) {
+          const v = adjacency[u][next[u]++];
+          const w = matchRight[v];
+          if (w === -1) {
+            via.push(v);
+            for (let i = 0; i < stack.length; i++) {
+              matchLeft[stack[i]] = via[i];
+              matchRight[via[i]] = stack[i];
             }
+            return true;
+          }
+          if (distance[w] === distance[u] + 1) {
+            via.push(v);
+            stack.push(w);
           }
+        } else {
+          distance[u] = Infinity;
+          stack.pop();
+          via.pop();
         }
       }
+      return false;
+    };
+
+    while (buildLayers()) {
+      next.fill(0);
+      for (let u = 0; u < left.length; u++) {
+        if (matchLeft[u] === -1) augment(u);
+      }
     }
+
+    const pairs: { left: T; right: T }[] = [];
+    matchLeft.forEach((v, u) => {
+      if (v !== -1) pairs.push({ left: left[u], right: right[v] });
+    });
+    return { size: pairs.length, pairs };
   }
 
   /**
-   * Implements Dijkstra's algorithm to find the shortest paths from a start node
-   * to all other reachable nodes in the graph.
-   * This implementation uses a simple linear scan to find the minimum distance node,
-   * which is suitable for smaller graphs. For larger graphs, a priority queue
-   * would significantly improve performance.
-   * Edges must have non-negative weights.
+   * Solves the minimum-cost assignment problem on a bipartite graph with the Hungarian
+   * algorithm, using edge weights as costs (unweighted edges cost 1). Among all matchings
+   * of maximum size, the one with the lowest total weight is returned; node pairs with no
+   * edge between them are never matched. Runs in O(n^2 m) for sides of size n <= m.
    *
-   * @param startNodeData The data of the node to start the algorithm from. Must implement `DataShapeWithValue`.
-   * @returns A tuple containing:
-   *          - distances: A Map where keys are node data (T) and values are the shortest distance from the start node. Infinity if unreachable.
-   *          - predecessors: A Map where keys are node data (T) and values are the predecessor node data (T) on the shortest path from the start node, or null for the start node.
+   * @param options.left Optional nodes that form the left side (e.g. workers). When omitted,
+   *                     the sides from `isBipartite()` are used.
+   * @returns The matched pairs with their edge weights and the total weight, or `null` if the
+   *          graph is not bipartite or `left` does not describe a valid bipartition.
+   * @throws {GraphError} In strict mode, if the graph is not bipartite or an edge does not cross the given sides.
    */
-  dijkstra(startNodeData: T): {
-    distances: Map<number, number>;
-    predecessors: Map<number, T | null>;
-  } {
-    // Check if the start node exists in the graph
-    if (!this.hasNode(startNodeData)) {
-      console.error(
-        `Dijkstra failed: Start node with data ${startNodeData.value} not found.`,
-      );
-      // Return empty results or throw an error
-      return { distances: new Map(), predecessors: new Map() };
-    }
+  minimumCostAssignment(options: { left?: T[] } = {}): {
+    pairs: { left: T; right: T; weight: number }[];
+    totalWeight: number;
+  } | null {
+    const sides = this.bipartiteSides(options.left);
+    if (!sides) return null;
 
-    const distances: Map<number, number> = new Map();
-    const predecessors: Map<number, T | null> = new Map();
-    // Using a Set for unvisited node values for easy deletion
-    const unvisited: Set<number> = new Set(
-      this.nodes.map((node) => node.value),
-    ); // Initialize with all node values
+    const { left, right } = sides;
+    const rightIndex: Map<NodeKey, number> = new Map();
+    right.forEach((node, j) => rightIndex.set(this.keyOf(node), j));
 
-    // Initialize distances and predecessors
-    for (const node of this.nodes) {
-      distances.set(node.value, Infinity);
-      predecessors.set(node.value, null);
-    }
+    // Cheapest edge between each pair; missing edges stay at Infinity
+    const cost: number[][] = left.map(() =>
+      new Array(right.length).fill(Infinity)
+    );
+    let magnitude = 0;
+    left.forEach((node, i) => {
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        const j = rightIndex.get(this.keyOf(edge.target))!;
+        const weight = edge.weight ?? 1;
+        if (weight < cost[i][j]) cost[i][j] = weight;
+        magnitude += Math.abs(weight);
+      }
+    });
 
-    // Distance from start node to itself is 0
-    distances.set(startNodeData.value, 0);
+    // Forbidden pairs cost more than any set of real edges, so the algorithm first
+    // maximises the number of real pairs and only then minimises their weight
+    const forbidden = 2 * magnitude + 1;
+    const transpose = left.length > right.length;
+    const rows = transpose ? right.length : left.length;
+    const columns = transpose ? left.length : right.length;
+    const costAt = (row: number, column: number): number => {
+      const c = transpose ? cost[column][row] : cost[row][column];
+      return c === Infinity ? forbidden : c;
+    };
+
+    const assigned = hungarian(rows, columns, costAt);
+
+    // Map the solver's rows back to left-side indices
+    const partner: number[] = new Array(left.length).fill(-1);
+    assigned.forEach((column, row) => {
+      if (transpose) {
+        partner[column] = row;
+      } else {
+        partner[row] = column;
+      }
+    });
+
+    const pairs: { left: T; right: T; weight: number }[] = [];
+    let totalWeight = 0;
+    partner.forEach((j, i) => {
+      if (j === -1 || cost[i][j] === Infinity) return;
+      pairs.push({ left: left[i], right: right[j], weight: cost[i][j] });
+      totalWeight += cost[i][j];
+    });
+
+    return { pairs, totalWeight };
+  }
 
-    // Process nodes while there are unvisited nodes
-    while (unvisited.size > 0) {
-      // Find the unvisited node value with the smallest distance
-      let currentNodeValue: number | null = null;
-      let minDistance = Infinity;
+  /**
+   * Sums the edge weights between every pair of nodes by node position, for community detection.
+   * Both halves of every edge are kept, so a self-loop adds twice its weight to its node.
+   * @returns For each node in insertion order, a Map from neighbour position to total weight,
+   *          or `null` if an edge has a negative weight.
+   */
+  private communityLinks(): Map<number, number>[] | null {
+    const index: Map<NodeKey, number> = new Map();
+    this.nodes.forEach((node, i) => index.set(this.keyOf(node), i));
 
-      // Simple linear scan for minimum distance (TODO:replace with Priority Queue for large graphs)
-      for (const nodeValue of unvisited) {
-        if (distances.get(nodeValue)! < minDistance) {
-          minDistance = distances.get(nodeValue)!;
-          currentNodeValue = nodeValue;
+    const links: Map<number, number>[] = [];
+    for (const node of this.nodes) {
+      const neighbors: Map<number, number> = new Map();
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        const weight = edge.weight ?? 1;
+        if (weight < 0) {
+          return this.fail(
+            new NegativeWeightError(
+              weight,
+              "Community detection requires non-negative edge weights. Found negative weight.",
+            ),
+            null,
+          );
         }
+        const target = index.get(this.keyOf(edge.target))!;
+        neighbors.set(target, (neighbors.get(target) ?? 0) + weight);
       }
+      links.push(neighbors);
+    }
+    return links;
+  }
 
-      // If the minimum distance is Infinity, all remaining unvisited nodes are unreachable
-      if (currentNodeValue === null || minDistance === Infinity) {
-        break;
+  /**
+   * Computes the modularity of a labelling of the nodes.
+   * @param links The weights between nodes, as returned by `communityLinks`.
+   * @param labels The community of each node by position; equal labels share a community.
+   * @param resolution Scales the expected share of edge weight inside communities.
+   * @returns The modularity, or 0 if the graph has no edge weight.
+   */
+  private scorePartition<L>(
+    links: Map<number, number>[],
+    labels: L[],
+    resolution: number,
+  ): number {
+    const inside: Map<L, number> = new Map();
+    const total: Map<L, number> = new Map();
+    let twiceWeight = 0;
+
+    links.forEach((neighbors, node) => {
+      const label = labels[node];
+      for (const [neighbor, weight] of neighbors) {
+        twiceWeight += weight;
+        total.set(label, (total.get(label) ?? 0) + weight);
+        if (labels[neighbor] === label) {
+          inside.set(label, (inside.get(label) ?? 0) + weight);
+        }
       }
+    });
+    if (twiceWeight === 0) return 0;
+
+    let modularity = 0;
+    for (const [label, degree] of total) {
+      modularity += (inside.get(label) ?? 0) / twiceWeight -
+        resolution * (degree / twiceWeight) ** 2;
+    }
+    return modularity;
+  }
 
-      // Remove the current node value from the unvisited set
-      unvisited.delete(currentNodeValue);
+  /**
+   * Numbers the communities of a labelling by their earliest-added node and scores it.
+   * @param links The weights between nodes, as returned by `communityLinks`.
+   * @param labels The community of each node by position.
+   * @param resolution Scales the expected share of edge weight inside communities.
+   * @returns The partition keyed by node key, with its modularity.
+   */
+  private partitionResult(
+    links: Map<number, number>[],
+    labels: number[],
+    resolution: number,
+  ): CommunityResult {
+    const numbers: Map<number, number> = new Map();
+    const partition: Map<NodeKey, number> = new Map();
+    this.nodes.forEach((node, i) => {
+      if (!numbers.has(labels[i])) numbers.set(labels[i], numbers.size);
+      partition.set(this.keyOf(node), numbers.get(labels[i])!);
+    });
+    return {
+      partition,
+      modularity: this.scorePartition(links, labels, resolution),
+    };
+  }
 
-      // Get the actual node object to find neighbors
-      const currentNode = this.nodeMap.get(currentNodeValue)!;
+  /**
+   * Iterative Hopcroft-Tarjan depth-first search shared by `articulationPoints`, `bridges`
+   * and `biconnectedComponents`. Tracks discovery times and low-links, and keeps a stack
+   * of visited edges that is unwound whenever a biconnected component is closed.
+   * @returns The articulation points, bridges and biconnected components of the graph.
+   */
+  private lowLinkSearch(): {
+    articulationPoints: T[];
+    bridges: { from: T; to: T }[];
+    components: T[][];
+  } {
+    const order: Map<NodeKey, number> = new Map();
+    this.nodes.forEach((node, i) => order.set(this.keyOf(node), i));
 
-      // Update distances of neighbors
-      const neighbors = this.getNeighbors(currentNode);
-      if (neighbors) {
-        for (const edge of neighbors) {
-          const neighbor = edge.target;
-          const weight = edge.weight ?? 1; // Assume weight is 1 if not specified (for unweighted graph behavior)
+    const discovery: Map<NodeKey, number> = new Map();
+    const low: Map<NodeKey, number> = new Map();
+    const cutVertices: Set<NodeKey> = new Set();
+    const bridges: { from: T; to: T }[] = [];
+    const components: T[][] = [];
+    const edgeStack: [T, T][] = [];
+    let time = 0;
 
-          // Check for negative weights (Dijkstra requires non-negative weights)
-          if (weight < 0) {
-            console.error(
-              "Dijkstra requires non-negative edge weights. Found negative weight.",
+    // Pops edges up to and including (parent, child) and records their nodes as a component
+    const closeComponent = (parent: T, child: T) => {
+      const members: Map<NodeKey, T> = new Map();
+      let edge: [T, T];
+      do {
+        edge = edgeStack.pop()!;
+        members.set(this.keyOf(edge[0]), edge[0]);
+        members.set(this.keyOf(edge[1]), edge[1]);
+      } while (
+        this.keyOf(edge[0]) !== this.keyOf(parent) ||
+        this.keyOf(edge[1]) !== this.keyOf(child)
+      );
+      components.push(
+        [...members.values()].sort((a, b) =>
+          order.get(this.keyOf(a))! - order.get(this.keyOf(b))!
+        ),
+      );
+    };
+
+    for (const root of this.nodes) {
+      if (discovery.has(this.keyOf(root))) continue;
+
+      discovery.set(this.keyOf(root), time);
+      low.set(this.keyOf(root), time++);
+      let rootChildren = 0;
+      const stack: {
+        node: T;
+        parent: T | null;
+        edge: number;
+        skippedParent: boolean;
+      }[] = [{ node: root, parent: null, edge: 0, skippedParent: false }];
+
+      while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        const edges = this.adjacencyList.get(this.keyOf(frame.node))!;
+
+        if (frame.edge < edges.length) {
+          const next = edges[frame.edge++].target;
+          if (this.keyOf(next) === this.keyOf(frame.node)) continue; // Self-loops never matter here
+
+          // Skip the edge back to the parent once; parallel copies count as back edges
+          if (
+            frame.parent !== null &&
+            this.keyOf(next) === this.keyOf(frame.parent) &&
+            !frame.skippedParent
+          ) {
+            frame.skippedParent = true;
+            continue;
+          }
+
+          if (!discovery.has(this.keyOf(next))) {
+            discovery.set(this.keyOf(next), time);
+            low.set(this.keyOf(next), time++);
+            edgeStack.push([frame.node, next]);
+            if (frame.parent === null) rootChildren++;
+            stack.push({
+              node: next,
+              parent: frame.node,
+              edge: 0,
+              skippedParent: false,
+            });
+          } else if (
+            discovery.get(this.keyOf(next))! <
+              discovery.get(this.keyOf(frame.node))!
+          ) {
+            // Back edge to an ancestor
+            edgeStack.push([frame.node, next]);
+            low.set(
+              this.keyOf(frame.node),
+              Math.min(
+                low.get(this.keyOf(frame.node))!,
+                discovery.get(this.keyOf(next))!,
+              ),
             );
-            // Depending on requirements, you might want to return null, throw error, or return current state
-            return { distances: new Map(), predecessors: new Map() }; // Abort or handle appropriately
           }
+          continue;
+        }
 
-          // Only consider unvisited neighbors
-          if (unvisited.has(neighbor.value)) {
-            const newDistance = distances.get(currentNode.value)! + weight;
+        // All edges explored: report to the parent
+        stack.pop();
+        const { node, parent } = frame;
+        if (parent === null) continue;
 
-            // If a shorter path to the neighbor is found
-            if (newDistance < distances.get(neighbor.value)!) {
-              distances.set(neighbor.value, newDistance);
-              predecessors.set(neighbor.value, currentNode);
-            }
-          }
+        low.set(
+          this.keyOf(parent),
+          Math.min(low.get(this.keyOf(parent))!, low.get(this.keyOf(node))!),
+        );
+        if (low.get(this.keyOf(node))! > discovery.get(this.keyOf(parent))!) {
+          bridges.push({ from: parent, to: node });
+        }
+        if (low.get(this.keyOf(node))! >= discovery.get(this.keyOf(parent))!) {
+          if (parent !== root) cutVertices.add(this.keyOf(parent));
+          closeComponent(parent, node);
         }
       }
+
+      // The root is a cut vertex only if it has several DFS children
+      if (rootChildren > 1) cutVertices.add(this.keyOf(root));
     }
 
-    return { distances, predecessors };
+    return {
+      articulationPoints: this.nodes.filter((node) =>
+        cutVertices.has(this.keyOf(node))
+      ),
+      bridges,
+      components,
+    };
   }
-}
 
-/**
- * Represents a Directed Graph (Digraph).
- * Edges in a directed graph have a specific direction from a source node to a target node.
- * Node data must implement the `DataShapeWithValue` interface.
- */
-export class Directed<
-  T extends DataShapeWithValue,
-> extends CommonGraphMethods<T> {
   /**
-   * Constructs a new Directed Graph.
+   * Resolves the two sides used by the matching algorithms and builds the left-to-right
+   * adjacency over side indices. Logs an error if no valid bipartition is available.
+   * @param leftNodes Optional explicit left side.
+   * @returns The sides and adjacency, or `null` if the graph is not bipartite along them.
    */
-  constructor() {
-    super();
-    console.log("Created a Directed Graph");
+  private bipartiteSides(
+    leftNodes?: T[],
+  ): { left: T[]; right: T[]; adjacency: number[][] } | null {
+    let left: T[];
+    let right: T[];
+    if (leftNodes) {
+      const leftValues = new Set(leftNodes.map((node) => this.keyOf(node)));
+      left = this.nodes.filter((node) => leftValues.has(this.keyOf(node)));
+      right = this.nodes.filter((node) => !leftValues.has(this.keyOf(node)));
+    } else {
+      const result = this.isBipartite();
+      if (!result.bipartite) {
+        return this.fail(
+          new GraphError("Bipartite matching failed: Graph is not bipartite."),
+          null,
+        );
+      }
+      ({ left, right } = result);
+    }
+
+    const rightIndex: Map<NodeKey, number> = new Map();
+    right.forEach((node, j) => rightIndex.set(this.keyOf(node), j));
+
+    // Right-side nodes may only link to the left side
+    for (const node of right) {
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        if (rightIndex.has(this.keyOf(edge.target))) {
+          return this.fail(
+            new GraphError(
+              `Bipartite matching failed: Edge between ${
+                this.keyOf(node)
+              } and ${this.keyOf(edge.target)} does not cross the bipartition.`,
+            ),
+            null,
+          );
+        }
+      }
+    }
+
+    const adjacency: number[][] = [];
+    for (const node of left) {
+      const neighbors: number[] = [];
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        const j = rightIndex.get(this.keyOf(edge.target));
+        if (j === undefined) {
+          return this.fail(
+            new GraphError(
+              `Bipartite matching failed: Edge between ${
+                this.keyOf(node)
+              } and ${this.keyOf(edge.target)} does not cross the bipartition.`,
+            ),
+            null,
+          );
+        }
+        neighbors.push(j);
+      }
+      adjacency.push(neighbors);
+    }
+
+    return { left, right, adjacency };
   }
 
   /**
-   * Adds an unweighted directed edge from one node to another.
-   * The edge goes from the `from` node to the `to` node.
-   * Nodes must already exist in the graph.
-   * @param from The data of the source node. Must implement `DataShapeWithValue`.
-   * @param to The data of the target node. Must implement `DataShapeWithValue`.
+   * Builds an odd cycle from a BFS tree and an edge joining two nodes of the same color.
+   * @returns The cycle in edge order; the last node links back to the first.
    */
-  addEdge(from: T, to: T): void {
-    // Ensure both nodes exist before adding edge
-    if (!this.hasNode(from) || !this.hasNode(to)) {
-      console.error(
-        `Cannot add directed edge: Source (${from.value}) or target (${to.value}) node not found.`,
-      );
-      return;
+  private oddCycleThrough(
+    u: T,
+    v: T,
+    parent: Map<NodeKey, T | null>,
+    depth: Map<NodeKey, number>,
+  ): T[] {
+    const fromU: T[] = [u];
+    const fromV: T[] = [v];
+    let a = u;
+    let b = v;
+    // Climb to the lowest common ancestor
+    while (depth.get(this.keyOf(a))! > depth.get(this.keyOf(b))!) {
+      a = parent.get(this.keyOf(a))!;
+      fromU.push(a);
     }
-
-    // Add edge from 'from' to 'to' in the adjacency list
-    this.adjacencyList.get(from)!.push(new GraphEdge(to));
-    console.log(`Added directed edge from ${from.value} to ${to.value}`);
+    while (depth.get(this.keyOf(b))! > depth.get(this.keyOf(a))!) {
+      b = parent.get(this.keyOf(b))!;
+      fromV.push(b);
+    }
+    while (this.keyOf(a) !== this.keyOf(b)) {
+      a = parent.get(this.keyOf(a))!;
+      b = parent.get(this.keyOf(b))!;
+      fromU.push(a);
+      fromV.push(b);
+    }
+    // u -> ... -> lca -> ... -> v, closed by the edge v - u
+    fromV.pop();
+    return [...fromU, ...fromV.reverse()];
   }
 
   /**
-   * Adds a weighted directed edge from one node to another.
-   * The edge goes from the `from` node to the `to` node with the specified weight.
-   * Nodes must already exist in the graph.
-   * @param from The data of the source node. Must implement `DataShapeWithValue`.
-   * @param to The data of the target node. Must implement `DataShapeWithValue`.
-   * @param weight The weight of the edge.
+   * Selects spanning forest edges with Kruskal's algorithm.
+   * @returns The chosen edges, each paired with its source node.
    */
-  addWeightedEdge(from: T, to: T, weight: number): void {
-    // Ensure both nodes exist before adding edge
-    if (!this.hasNode(from) || !this.hasNode(to)) {
-      console.error(
-        `Cannot add directed weighted edge: Source (${from.value}) or target (${to.value}) node not found.`,
-      );
-      return;
+  private kruskalEdges(): { from: T; edge: GraphEdge<T> }[] {
+    const order: Map<NodeKey, number> = new Map();
+    this.nodes.forEach((node, i) => order.set(this.keyOf(node), i));
+
+    // Each undirected edge is stored twice; keep the copy leaving the earlier node
+    const candidates: { from: T; edge: GraphEdge<T> }[] = [];
+    for (const node of this.nodes) {
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        if (
+          order.get(this.keyOf(node))! < order.get(this.keyOf(edge.target))!
+        ) {
+          candidates.push({ from: node, edge });
+        }
+      }
     }
+    // Array.prototype.sort is stable, so equal weights keep insertion order
+    candidates.sort((a, b) => (a.edge.weight ?? 1) - (b.edge.weight ?? 1));
 
-    // Add weighted edge from 'from' to 'to' in the adjacency list
-    this.adjacencyList.get(from)!.push(new GraphEdge(to, weight));
-    console.log(
-      `Added directed weighted edge from ${from.value} to ${to.value} with weight ${weight}`,
+    const components = new DisjointSet<NodeKey>(
+      this.nodes.map((node) => this.keyOf(node)),
+    );
+    const chosen: { from: T; edge: GraphEdge<T> }[] = [];
+    for (const candidate of candidates) {
+      if (
+        components.union(
+          this.keyOf(candidate.from),
+          this.keyOf(candidate.edge.target),
+        )
+      ) {
+        chosen.push(candidate);
+        if (chosen.length === this.nodes.length - 1) break;
+      }
+    }
+
+    return chosen;
+  }
+
+  /**
+   * Selects spanning forest edges with Prim's algorithm, starting a new tree from
+   * the first unvisited node (in insertion order) whenever the current one is complete.
+   * @returns The chosen edges, each paired with its source node.
+   */
+  private primEdges(): { from: T; edge: GraphEdge<T> }[] {
+    const visited: Set<NodeKey> = new Set();
+    const chosen: { from: T; edge: GraphEdge<T> }[] = [];
+    let sequence = 0;
+    const queue = new PriorityQueue<
+      { from: T; edge: GraphEdge<T>; sequence: number }
+    >(
+      (a, b) =>
+        (a.edge.weight ?? 1) - (b.edge.weight ?? 1) || a.sequence - b.sequence,
     );
+
+    const visit = (node: T) => {
+      visited.add(this.keyOf(node));
+      for (const edge of this.adjacencyList.get(this.keyOf(node))!) {
+        if (!visited.has(this.keyOf(edge.target))) {
+          queue.push({ from: node, edge, sequence: sequence++ });
+        }
+      }
+    };
+
+    for (const root of this.nodes) {
+      if (visited.has(this.keyOf(root))) continue;
+      visit(root);
+
+      while (!queue.isEmpty()) {
+        const { from, edge } = queue.pop()!;
+        if (visited.has(this.keyOf(edge.target))) continue;
+        chosen.push({ from, edge });
+        visit(edge.target);
+      }
+    }
+
+    return chosen;
   }
 }
 
 /**
- * Represents an Unidirected Graph.
- * Edges in an unidirected graph connect two nodes symmetrically, implying traversal is possible in both directions.
- * Node data must implement the `DataShapeWithValue` interface.
+ * Adds the nodes and edges of a parsed DOT document to an empty graph.
+ * @param graph The graph to fill.
+ * @param document The parsed DOT document.
+ * @param toData Optional function creating node data from a node ID and its attributes.
+ * @param options The options the graph was created with.
+ * @returns The filled graph.
+ * @throws {Error} If `toData` is missing while `options.keyOf` is set, or a node ID is not numeric.
  */
-export class Unidirected<
-  T extends DataShapeWithValue,
-> extends CommonGraphMethods<T> {
-  /**
-   * Constructs a new Unidirected Graph.
-   */
-  constructor() {
-    super();
-    console.log("Created an Unidirected Graph");
+function populateFromDOT<
+  U extends DataShapeWithValue,
+  G extends Directed<U> | Unidirected<U>,
+>(
+  graph: G,
+  document: DotDocument,
+  toData: ((id: string, attributes: DotAttributes) => U) | undefined,
+  options: GraphOptions<U>,
+): G {
+  // The default `{ value }` nodes are only keyed by their ID under the default `keyOf`
+  if (!toData && options.keyOf) {
+    throw new Error(
+      "Invalid DOT: pass toData to create the nodes of a graph with a custom keyOf",
+    );
   }
+  const create = toData ??
+    ((id: string, attributes: DotAttributes): U => {
+      const value = Number(id);
+      if (id.trim() === "" || Number.isNaN(value)) {
+        throw new Error(`Invalid DOT: node ID '${id}' is not a number`);
+      }
+      return (attributes.label === undefined
+        ? { value }
+        : { value, label: attributes.label }) as U;
+    });
 
-  /**
-   * Adds an unweighted unidirected edge between two nodes.
-   * This creates symmetric edges in the adjacency list (from `from` to `to`, and from `to` to `from`).
-   * Nodes must already exist in the graph.
-   * @param from The data of one node involved in the edge. Must implement `DataShapeWithValue`.
-   * @param to The data of the other node involved in the edge. Must implement `DataShapeWithValue`.
-   */
-  addEdge(from: T, to: T): void {
-    // Ensure both nodes exist before adding edge
-    if (!this.hasNode(from) || !this.hasNode(to)) {
-      console.error(
-        `Cannot add unidirected edge: Node with data ${from.value} or ${to.value} not found.`,
-      );
-      return;
+  const byId: Map<string, U> = new Map();
+  for (const [id, attributes] of document.nodes) {
+    const data = create(id, attributes);
+    byId.set(id, data);
+    graph.addNode(data);
+  }
+
+  for (const { from, to, attributes } of document.edges) {
+    const label = attributes.label;
+    if (label !== undefined && label.trim() !== "" && !isNaN(Number(label))) {
+      graph.addWeightedEdge(byId.get(from)!, byId.get(to)!, Number(label));
+    } else {
+      graph.addEdge(byId.get(from)!, byId.get(to)!);
     }
+  }
 
-    // Add edge from 'from' to 'to' AND from 'to' to 'from'
-    this.adjacencyList.get(from)!.push(new GraphEdge(to));
-    this.adjacencyList.get(to)!.push(new GraphEdge(from));
-    console.log(`Added unidirected edge between ${from.value} and ${to.value}`);
+  return graph;
+}
+
+/**
+ * Parses and validates the envelope of a `GraphJSON` document.
+ * @param json The JSON text or parsed object.
+ * @returns The validated document.
+ * @throws {Error} If the document is malformed or has an unsupported version.
+ */
+function parseGraphJSON<U extends DataShapeWithValue>(
+  json: string | GraphJSON<U>,
+): GraphJSON<U> {
+  const document = typeof json === "string" ? JSON.parse(json) : json;
+  if (typeof document !== "object" || document === null) {
+    throw new Error("Invalid graph JSON: expected an object");
+  }
+  if (document.version !== GRAPH_JSON_VERSION) {
+    throw new Error(
+      `Invalid graph JSON: unsupported version ${document.version}`,
+    );
   }
+  if (!Array.isArray(document.nodes) || !Array.isArray(document.edges)) {
+    throw new Error("Invalid graph JSON: 'nodes' and 'edges' must be arrays");
+  }
+  return document;
+}
 
-  /**
-   * Adds a weighted unidirected edge between two nodes.
-   * This creates symmetric weighted edges in the adjacency list with the same weight.
-   * Nodes must already exist in the graph.
-   * @param from The data of one node involved in the edge. Must implement `DataShapeWithValue`.
-   * @param to The data of the other node involved in the edge. Must implement `DataShapeWithValue`.
-   * @param weight The weight of the edge.
-   */
-  addWeightedEdge(from: T, to: T, weight: number): void {
-    // Ensure both nodes exist before adding edge
-    if (!this.hasNode(from) || !this.hasNode(to)) {
-      console.error(
-        `Cannot add unidirected weighted edge: Node with data ${from.value} or ${to.value} not found.`,
+/**
+ * Adds the nodes and edges of a validated `GraphJSON` document to an empty graph.
+ * @param graph The graph to fill.
+ * @param document The validated document.
+ * @returns The filled graph.
+ * @throws {Error} If a node has no numeric value or an edge references an unknown node.
+ */
+function populateFromJSON<
+  U extends DataShapeWithValue,
+  G extends Directed<U> | Unidirected<U>,
+>(graph: G, document: GraphJSON<U>): G {
+  const byKey: Map<NodeKey, U> = new Map();
+  document.nodes.forEach((node, i) => {
+    if (typeof node?.value !== "number") {
+      throw new Error(`Invalid graph JSON: node ${i} has no numeric 'value'`);
+    }
+    byKey.set(graph.keyOf(node), node);
+    graph.addNode(node);
+  });
+
+  document.edges.forEach(({ from, to, weight, label, attributes }, i) => {
+    const source = byKey.get(from);
+    const target = byKey.get(to);
+    if (!source || !target) {
+      throw new Error(
+        `Invalid graph JSON: edge ${i} references unknown node ${
+          source ? to : from
+        }`,
       );
-      return;
     }
+    if (weight === undefined) {
+      graph.addEdge(source, target, { label, attributes });
+    } else {
+      graph.addWeightedEdge(source, target, weight, { label, attributes });
+    }
+  });
+
+  return graph;
+}
 
-    // Add weighted edge from 'from' to 'to' AND from 'to' to 'from'
-    this.adjacencyList.get(from)!.push(new GraphEdge(to, weight));
-    this.adjacencyList.get(to)!.push(new GraphEdge(from, weight)); // Unidirected weighted edges have the same weight in both directions
-    console.log(
-      `Added unidirected weighted edge between ${from.value} and ${to.value} with weight ${weight}`,
+/**
+ * Adds the edges listed in a delimited edge list to an empty graph.
+ * @param graph The graph to fill.
+ * @param text The edge list text.
+ * @param options Parsing options; `nodes` fixes the set of known nodes.
+ * @returns The filled graph.
+ * @throws {Error} If a row is malformed or references an unknown node, or if `nodes` is missing
+ *                 while `keyOf` is set.
+ */
+function populateFromEdgeList<
+  U extends DataShapeWithValue,
+  G extends Directed<U> | Unidirected<U>,
+>(
+  graph: G,
+  text: string,
+  options: EdgeListOptions & GraphOptions<U> & { nodes?: U[] },
+): G {
+  // The default `{ value }` nodes are only keyed by their ID under the default `keyOf`
+  if (!options.nodes && options.keyOf) {
+    throw new Error(
+      "Invalid edge list: pass nodes to read a graph with a custom keyOf",
     );
   }
+  const delimiter = options.delimiter ?? ",";
+  // Fields are matched against the string form of each node key
+  const byId: Map<string, U> = new Map();
+  for (const node of options.nodes ?? []) {
+    byId.set(String(graph.keyOf(node)), node);
+    graph.addNode(node);
+  }
+  const isNodeId = (field: string) =>
+    options.nodes ? byId.has(field) : field !== "" && !isNaN(Number(field));
+
+  let firstRow = true;
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === "") return;
+    const fields = line
+      .split(delimiter)
+      .map((field) => field.trim().replace(/^"(.*)"$/, "$1"));
+
+    // Skip a header row unless told otherwise
+    const isFirstRow = firstRow;
+    firstRow = false;
+    if (isFirstRow && (options.header ?? !isNodeId(fields[0]))) return;
+
+    if (fields.length < 2 || fields.length > 3) {
+      throw new Error(
+        `Invalid edge list: line ${i + 1} must have 2 or 3 fields`,
+      );
+    }
+
+    const [from, to] = [fields[0], fields[1]].map((field) => {
+      let node = byId.get(field);
+      if (!node) {
+        if (options.nodes) {
+          throw new Error(
+            `Invalid edge list: line ${i + 1} references unknown node ${field}`,
+          );
+        }
+        if (!isNodeId(field)) {
+          throw new Error(
+            `Invalid edge list: line ${
+              i + 1
+            } has a non-numeric node ID '${field}'`,
+          );
+        }
+        node = { value: Number(field) } as U;
+        byId.set(field, node);
+        graph.addNode(node);
+      }
+      return node;
+    });
+
+    const weight = fields[2] ?? "";
+    if (weight === "") {
+      graph.addEdge(from, to);
+    } else if (isNaN(Number(weight))) {
+      throw new Error(
+        `Invalid edge list: line ${i + 1} has a non-numeric weight '${weight}'`,
+      );
+    } else {
+      graph.addWeightedEdge(from, to, Number(weight));
+    }
+  });
+
+  return graph;
 }
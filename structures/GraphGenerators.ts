@@ -0,0 +1,399 @@
+/**
+ * This module generates `Directed` and `Unidirected` graphs of well-known shapes, such as
+ * grids and stars, and random graphs following the Erdős–Rényi and Barabási–Albert models.
+ * Random choices come from a seedable generator, so the same seed always builds the same graph.
+ * @module
+ */
+import type { DataShapeWithValue } from "../interfaces/Comparable.ts";
+import { Directed, type GraphOptions, Unidirected } from "./Graph.ts";
+import { createRandom, type RandomSource } from "../utils/Random.ts";
+
+/**
+ * A range of random edge weights.
+ */
+export type WeightRange = {
+  /** The lowest possible weight. */
+  min: number;
+  /** The highest possible weight. */
+  max: number;
+  /**
+   * When `true`, weights are whole numbers from `min` to `max` inclusive (so a fractional `min`
+   * is rounded up and a fractional `max` rounded down). Defaults to `false`.
+   */
+  integer?: boolean;
+};
+
+/**
+ * Options accepted by every generator, on top of the usual `GraphOptions`.
+ * @template T The type of data stored in the graph nodes.
+ * @template D Whether the generated graph is directed.
+ */
+export type GeneratorOptions<T, D extends boolean = boolean> =
+  & GraphOptions<T>
+  & {
+    /** When `true`, a `Directed` graph is built; otherwise (the default) a `Unidirected` one. */
+    directed?: D;
+    /** Seeds the random choices, so that the same seed builds the same graph. */
+    seed?: number;
+    /** When given, every edge gets a random weight from this range; otherwise edges are unweighted. */
+    weights?: WeightRange;
+    /**
+     * Creates the data of the node at a position, from 0. Defaults to `{ value: index }`
+     * (grids also add the `x` and `y` coordinates of the node).
+     */
+    node?: (index: number) => T;
+  };
+
+/**
+ * The class of graph built by a generator: `Directed` when `directed` is `true`, otherwise `Unidirected`.
+ * @template T The type of data stored in the graph nodes.
+ * @template D Whether the generated graph is directed.
+ */
+export type GeneratedGraph<T extends DataShapeWithValue, D extends boolean> =
+  D extends true ? Directed<T> : Unidirected<T>;
+
+/**
+ * The default node data of `gridGraph`: the node's position and its grid coordinates.
+ */
+export type GridNode = { value: number; x: number; y: number };
+
+/**
+ * Checks that a size argument is a whole number of at least `min`.
+ * @throws {Error} If it is not.
+ */
+function checkSize(name: string, value: number, min = 0): void {
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`${name} must be an integer of at least ${min}`);
+  }
+}
+
+/**
+ * Checks that a probability argument is between 0 and 1.
+ * @throws {Error} If it is not.
+ */
+function checkProbability(value: number): void {
+  if (!(value >= 0 && value <= 1)) {
+    throw new Error("Edge probability must be between 0 and 1");
+  }
+}
+
+/**
+ * Creates a graph with `size` nodes and lets `connect` add its edges.
+ * @param size The number of nodes.
+ * @param options The generator options.
+ * @param defaultNode Creates the data of a node when `options.node` is not given.
+ * @param connect Adds the edges, naming nodes by position and drawing from the random source.
+ * @returns The generated graph.
+ * @throws {Error} If the weight range is empty, or holds no whole number when `integer` is set.
+ */
+function generate<T extends DataShapeWithValue, D extends boolean>(
+  size: number,
+  options: GeneratorOptions<T, D>,
+  defaultNode: (index: number) => DataShapeWithValue,
+  connect: (
+    link: (from: number, to: number) => void,
+    random: RandomSource,
+  ) => void,
+): GeneratedGraph<T, D> {
+  const { directed, seed, weights, node, ...graphOptions } = options;
+  if (weights && !(weights.min <= weights.max)) {
+    throw new Error("Weight range minimum must not exceed its maximum");
+  }
+  // The whole numbers a weight range with `integer` can produce
+  const lowest = Math.ceil(weights?.min ?? 0);
+  const highest = Math.floor(weights?.max ?? 0);
+  if (weights?.integer && lowest > highest) {
+    throw new Error("Weight range must contain a whole number");
+  }
+
+  const random = createRandom(seed);
+  const graph = directed
+    ? new Directed<T>(graphOptions)
+    : new Unidirected<T>(graphOptions);
+  const create = node ?? (defaultNode as (index: number) => T);
+  const nodes = Array.from({ length: size }, (_, index) => create(index));
+  nodes.forEach((data) => graph.addNode(data));
+
+  connect((from, to) => {
+    if (!weights) {
+      graph.addEdge(nodes[from], nodes[to]);
+      return;
+    }
+    const weight = weights.integer
+      ? lowest + Math.floor(random() * (highest - lowest + 1))
+      : weights.min + random() * (weights.max - weights.min);
+    graph.addWeightedEdge(nodes[from], nodes[to], weight);
+  }, random);
+
+  return graph as GeneratedGraph<T, D>;
+}
+
+/**
+ * The default node data: just the position of the node.
+ */
+const indexNode = (index: number): DataShapeWithValue => ({ value: index });
+
+/**
+ * Builds a complete graph, in which every node is linked to every other node.
+ * Directed complete graphs have an edge in each direction between every pair.
+ * @param n The number of nodes.
+ * @param options Optional generator options, see `GeneratorOptions`.
+ * @returns The graph, with `n * (n - 1) / 2` edges (twice as many when directed).
+ * @throws {Error} If `n` is not a non-negative integer.
+ */
+export function completeGraph<
+  T extends DataShapeWithValue = DataShapeWithValue,
+  D extends boolean = false,
+>(n: number, options: GeneratorOptions<T, D> = {}): GeneratedGraph<T, D> {
+  checkSize("Node count", n);
+  return generate(n, options, indexNode, (link) => {
+    for (let from = 0; from < n; from++) {
+      for (let to = from + 1; to < n; to++) {
+        link(from, to);
+        if (options.directed) link(to, from);
+      }
+    }
+  });
+}
+
+/**
+ * Builds a grid in which each node is linked to its right and lower neighbours.
+ * The node at row `r` and column `c` is at position `r * columns + c`, and its default data is
+ * a `GridNode` with `x: c` and `y: r`, which suits `manhattanHeuristic` for A* searches.
+ * Directed grids only have edges pointing right and down.
+ * @param rows The number of rows.
+ * @param columns The number of columns.
+ * @param options Optional generator options, see `GeneratorOptions`.
+ * @returns The graph, with `rows * columns` nodes.
+ * @throws {Error} If `rows` or `columns` is not a non-negative integer.
+ */
+export function gridGraph<
+  T extends DataShapeWithValue = GridNode,
+  D extends boolean = false,
+>(
+  rows: number,
+  columns: number,
+  options: GeneratorOptions<T, D> = {},
+): GeneratedGraph<T, D> {
+  checkSize("Row count", rows);
+  checkSize("Column count", columns);
+  const gridNode = (index: number): GridNode => ({
+    value: index,
+    x: index % columns,
+    y: Math.floor(index / columns),
+  });
+  return generate(rows * columns, options, gridNode, (link) => {
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const index = row * columns + column;
+        if (column + 1 < columns) link(index, index + 1);
+        if (row + 1 < rows) link(index, index + columns);
+      }
+    }
+  });
+}
+
+/**
+ * Builds a path, in which node `i` is linked to node `i + 1`.
+ * @param n The number of nodes.
+ * @param options Optional generator options, see `GeneratorOptions`.
+ * @returns The graph, with `n - 1` edges (none when `n` is 0).
+ * @throws {Error} If `n` is not a non-negative integer.
+ */
+export function pathGraph<
+  T extends DataShapeWithValue = DataShapeWithValue,
+  D extends boolean = false,
+>(n: number, options: GeneratorOptions<T, D> = {}): GeneratedGraph<T, D> {
+  checkSize("Node count", n);
+  return generate(n, options, indexNode, (link) => {
+    for (let i = 0; i + 1 < n; i++) link(i, i + 1);
+  });
+}
+
+/**
+ * Builds a cycle: a path whose last node links back to the first.
+ * @param n The number of nodes; at least 3.
+ * @param options Optional generator options, see `GeneratorOptions`.
+ * @returns The graph, with `n` edges.
+ * @throws {Error} If `n` is not an integer of at least 3.
+ */
+export function cycleGraph<
+  T extends DataShapeWithValue = DataShapeWithValue,
+  D extends boolean = false,
+>(n: number, options: GeneratorOptions<T, D> = {}): GeneratedGraph<T, D> {
+  checkSize("Node count", n, 3);
+  return generate(n, options, indexNode, (link) => {
+    for (let i = 0; i < n; i++) link(i, (i + 1) % n);
+  });
+}
+
+/**
+ * Builds a star, in which node 0 (the hub) is linked to every other node.
+ * Directed stars have edges pointing away from the hub.
+ * @param n The number of nodes, including the hub.
+ * @param options Optional generator options, see `GeneratorOptions`.
+ * @returns The graph, with `n - 1` edges (none when `n` is 0).
+ * @throws {Error} If `n` is not a non-negative integer.
+ */
+export function starGraph<
+  T extends DataShapeWithValue = DataShapeWithValue,
+  D extends boolean = false,
+>(n: number, options: GeneratorOptions<T, D> = {}): GeneratedGraph<T, D> {
+  checkSize("Node count", n);
+  return generate(n, options, indexNode, (link) => {
+    for (let leaf = 1; leaf < n; leaf++) link(0, leaf);
+  });
+}
+
+/**
+ * Builds an Erdős–Rényi random graph G(n, p): every pair of distinct nodes (every ordered pair,
+ * when directed) is linked with probability `p`, independently. Skips over the pairs that are
+ * not linked, so sparse graphs are built in O(n + edges) time.
+ * @param n The number of nodes.
+ * @param p The probability of each edge, between 0 and 1.
+ * @param options Optional generator options, see `GeneratorOptions`.
+ * @returns The graph, with about `p * n * (n - 1) / 2` edges (twice as many when directed).
+ * @throws {Error} If `n` is not a non-negative integer or `p` is not between 0 and 1.
+ */
+export function erdosRenyiGraph<
+  T extends DataShapeWithValue = DataShapeWithValue,
+  D extends boolean = false,
+>(
+  n: number,
+  p: number,
+  options: GeneratorOptions<T, D> = {},
+): GeneratedGraph<T, D> {
+  checkSize("Node count", n);
+  checkProbability(p);
+  return generate(n, options, indexNode, (link, random) => {
+    if (options.directed) {
+      // Ordered pair k links node floor(k / (n - 1)) to one of the other n - 1 nodes
+      for (const k of bernoulliIndices(n * (n - 1), p, random)) {
+        const from = Math.floor(k / (n - 1));
+        const offset = k % (n - 1);
+        link(from, offset < from ? offset : offset + 1);
+      }
+    } else {
+      unorderedPairs(n, p, random, link);
+    }
+  });
+}
+
+/**
+ * Builds a Barabási–Albert scale-free graph by preferential attachment. The graph starts as a
+ * star of `m + 1` nodes; every further node is then linked to `m` distinct existing nodes, chosen
+ * with probability proportional to their degree, so early nodes grow into hubs.
+ * Directed graphs have edges pointing from each new node to the nodes it chose.
+ * @param n The number of nodes; more than `m`.
+ * @param m The number of edges added with each new node; at least 1.
+ * @param options Optional generator options, see `GeneratorOptions`.
+ * @returns The graph, with `m * (n - m)` edges.
+ * @throws {Error} If `m` is not a positive integer or `n` is not an integer greater than `m`.
+ */
+export function barabasiAlbertGraph<
+  T extends DataShapeWithValue = DataShapeWithValue,
+  D extends boolean = false,
+>(
+  n: number,
+  m: number,
+  options: GeneratorOptions<T, D> = {},
+): GeneratedGraph<T, D> {
+  checkSize("Edges per node", m, 1);
+  checkSize("Node count", n, m + 1);
+  return generate(n, options, indexNode, (link, random) => {
+    // Every node appears once per edge end, so a uniform pick is proportional to degree
+    const ends: number[] = [];
+    for (let leaf = 1; leaf <= m; leaf++) {
+      link(leaf, 0);
+      ends.push(0, leaf);
+    }
+
+    for (let node = m + 1; node < n; node++) {
+      const targets: Set<number> = new Set();
+      while (targets.size < m) {
+        targets.add(ends[Math.floor(random() * ends.length)]);
+      }
+      for (const target of targets) {
+        link(node, target);
+        ends.push(node, target);
+      }
+    }
+  });
+}
+
+/**
+ * Builds a random directed acyclic graph: every pair of nodes `i < j` is linked from `i` to `j`
+ * with probability `p`, so the node positions are a topological order.
+ * @param n The number of nodes.
+ * @param p The probability of each edge, between 0 and 1.
+ * @param options Optional generator options, see `GeneratorOptions`. The graph is always directed.
+ * @returns The `Directed` graph.
+ * @throws {Error} If `n` is not a non-negative integer or `p` is not between 0 and 1.
+ */
+export function randomDAG<T extends DataShapeWithValue = DataShapeWithValue>(
+  n: number,
+  p: number,
+  options: Omit<GeneratorOptions<T>, "directed"> = {},
+): Directed<T> {
+  checkSize("Node count", n);
+  checkProbability(p);
+  return generate(
+    n,
+    { ...options, directed: true },
+    indexNode,
+    (link, random) => unorderedPairs(n, p, random, link),
+  );
+}
+
+/**
+ * Links each pair of distinct nodes with probability `p`, always from the earlier node to the later one.
+ * @param n The number of nodes.
+ * @param p The probability of linking each pair.
+ * @param random The random number source.
+ * @param link Adds the edge between two node positions.
+ */
+function unorderedPairs(
+  n: number,
+  p: number,
+  random: RandomSource,
+  link: (from: number, to: number) => void,
+): void {
+  // Pair k is (from, to) with from < to, numbered column by column: (0, 1), (0, 2), (1, 2), (0, 3)...
+  let to = 1;
+  let columnStart = 0;
+  for (const k of bernoulliIndices((n * (n - 1)) / 2, p, random)) {
+    while (k >= columnStart + to) {
+      columnStart += to;
+      to++;
+    }
+    link(k - columnStart, to);
+  }
+}
+
+/**
+ * Picks each index in `[0, count)` independently with probability `p`, jumping over the
+ * indices that are not picked with geometrically distributed skips.
+ * @param count The number of indices.
+ * @param p The probability of picking each index.
+ * @param random The random number source.
+ * @returns A generator yielding the picked indices in increasing order.
+ */
+function* bernoulliIndices(
+  count: number,
+  p: number,
+  random: RandomSource,
+): Generator<number> {
+  if (p <= 0) return;
+  if (p >= 1) {
+    for (let index = 0; index < count; index++) yield index;
+    return;
+  }
+
+  const logMiss = Math.log(1 - p);
+  let index = -1;
+  while (true) {
+    index += 1 + Math.floor(Math.log(1 - random()) / logMiss);
+    if (index >= count) return;
+    yield index;
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Implementation of a generic Priority Queue backed by a binary min-heap.
+ * Elements are ordered by a comparator function, or by their `compareTo`
+ * method when they implement the `Comparable` interface.
+ * @module
+ */
+import type { Comparable } from "../interfaces/Comparable.ts";
+
+/**
+ * A reference to an element stored in a `PriorityQueue`.
+ * Handles are returned by `push` and can later be passed to `update`,
+ * `decreaseKey` or `remove` to change or delete that specific element.
+ * @template T The type of the element referenced by the handle.
+ */
+export interface PriorityQueueHandle<T> {
+  /** The element currently referenced by this handle. */
+  readonly value: T;
+}
+
+/**
+ * Internal heap entry. Tracks its own position in the heap array so that
+ * handle-based operations run in O(log n) without searching.
+ */
+class HeapEntry<T> implements PriorityQueueHandle<T> {
+  /**
+   * @param value The element stored in the entry.
+   * @param index The current position of the entry in the heap array, or -1 once removed.
+   */
+  constructor(
+    public value: T,
+    public index: number,
+  ) {}
+}
+
+/**
+ * Default ordering used when no comparator is given.
+ * Delegates to `compareTo` for `Comparable` elements and falls back to the
+ * `<` / `>` operators for primitives such as numbers and strings.
+ */
+function defaultCompare<T>(a: T, b: T): number {
+  if (
+    typeof a === "object" &&
+    a !== null &&
+    typeof (a as unknown as Comparable<T>).compareTo === "function"
+  ) {
+    return (a as unknown as Comparable<T>).compareTo(b);
+  }
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+/**
+ * Implementation of a generic Priority Queue using a binary min-heap.
+ * The element that compares lowest is always dequeued first; pass a reversed
+ * comparator to obtain max-heap behavior.
+ * @template T The type of elements stored in the priority queue.
+ */
+export class PriorityQueue<T> {
+  /**
+   * The internal array holding the heap entries.
+   */
+  private heap: HeapEntry<T>[];
+  /**
+   * The function used to order elements. Negative means `a` has higher priority.
+   */
+  private compare: (a: T, b: T) => number;
+
+  /**
+   * Creates a new, empty PriorityQueue.
+   * @param comparator Optional function that returns a negative number, zero, or a positive
+   *                   number as `a` should be dequeued before, together with, or after `b`.
+   *                   Defaults to `compareTo` for `Comparable` elements, or natural ordering.
+   */
+  constructor(comparator: (a: T, b: T) => number = defaultCompare) {
+    this.heap = [];
+    this.compare = comparator;
+  }
+
+  /**
+   * Adds an element to the priority queue.
+   * @param item The element to add.
+   * @returns A handle that can be used to update or remove the element later.
+   */
+  push(item: T): PriorityQueueHandle<T> {
+    const entry = new HeapEntry(item, this.heap.length);
+    this.heap.push(entry);
+    this.siftUp(entry.index);
+    return entry;
+  }
+
+  /**
+   * Removes and returns the element with the highest priority (lowest according to the comparator).
+   * Returns `undefined` if the queue is empty.
+   * @returns The highest-priority element, or `undefined` if the queue is empty.
+   */
+  pop(): T | undefined {
+    if (this.isEmpty()) return undefined;
+    const top = this.heap[0];
+    this.removeAt(0);
+    return top.value;
+  }
+
+  /**
+   * Returns the element with the highest priority without removing it.
+   * Returns `undefined` if the queue is empty.
+   * @returns The highest-priority element, or `undefined` if the queue is empty.
+   */
+  peek(): T | undefined {
+    return this.isEmpty() ? undefined : this.heap[0].value;
+  }
+
+  /**
+   * Replaces the element referenced by a handle and restores the heap order,
+   * whether the new element has a higher or lower priority than the old one.
+   * @param handle The handle returned by `push`.
+   * @param item The new element to store in place of the old one.
+   * @throws {Error} If the handle does not belong to this queue or was already removed.
+   */
+  update(handle: PriorityQueueHandle<T>, item: T): void {
+    const entry = this.entryOf(handle);
+    const previous = entry.value;
+    entry.value = item;
+    if (this.compare(item, previous) < 0) {
+      this.siftUp(entry.index);
+    } else {
+      this.siftDown(entry.index);
+    }
+  }
+
+  /**
+   * Replaces the element referenced by a handle with one of equal or higher priority.
+   * This is the classic heap `decrease-key` operation used by Dijkstra and Prim.
+   * @param handle The handle returned by `push`.
+   * @param item The new element. Must not compare greater than the current element.
+   * @throws {Error} If the handle is invalid or the new element has a lower priority.
+   */
+  decreaseKey(handle: PriorityQueueHandle<T>, item: T): void {
+    const entry = this.entryOf(handle);
+    if (this.compare(item, entry.value) > 0) {
+      throw new Error("New key has a lower priority than the current key");
+    }
+    entry.value = item;
+    this.siftUp(entry.index);
+  }
+
+  /**
+   * Removes the element referenced by a handle from the queue.
+   * @param handle The handle returned by `push`.
+   * @returns `true` if the element was removed, `false` if it was no longer in the queue.
+   */
+  remove(handle: PriorityQueueHandle<T>): boolean {
+    if (!this.contains(handle)) return false;
+    this.removeAt((handle as HeapEntry<T>).index);
+    return true;
+  }
+
+  /**
+   * Checks whether the element referenced by a handle is still in the queue.
+   * @param handle The handle returned by `push`.
+   * @returns `true` if the element is still queued, `false` otherwise.
+   */
+  contains(handle: PriorityQueueHandle<T>): boolean {
+    const entry = handle as HeapEntry<T>;
+    return entry.index >= 0 && this.heap[entry.index] === entry;
+  }
+
+  /**
+   * Checks if the priority queue is empty.
+   * @returns `true` if the queue contains no elements, `false` otherwise.
+   */
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  /**
+   * Returns the number of elements in the priority queue.
+   * @returns The number of elements in the priority queue.
+   */
+  size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Removes all elements from the priority queue. Existing handles become invalid.
+   */
+  clear(): void {
+    for (const entry of this.heap) entry.index = -1;
+    this.heap = [];
+  }
+
+  /**
+   * Returns the elements of the priority queue in priority order without modifying the queue.
+   * @returns An array of elements sorted from highest to lowest priority.
+   */
+  toArray(): T[] {
+    return this.heap.map((entry) => entry.value).sort(this.compare);
+  }
+
+  /**
+   * Resolves a handle to its heap entry, validating that it is still queued.
+   * @param handle The handle to resolve.
+   * @returns The heap entry behind the handle.
+   */
+  private entryOf(handle: PriorityQueueHandle<T>): HeapEntry<T> {
+    if (!this.contains(handle)) {
+      throw new Error("Handle is not in the priority queue");
+    }
+    return handle as HeapEntry<T>;
+  }
+
+  /**
+   * Removes the entry at the given heap position and restores the heap order.
+   * @param index The position of the entry to remove.
+   */
+  private removeAt(index: number): void {
+    const removed = this.heap[index];
+    const last = this.heap.pop()!;
+    removed.index = -1;
+    if (index < this.heap.length) {
+      this.heap[index] = last;
+      last.index = index;
+      this.siftDown(index);
+      this.siftUp(last.index);
+    }
+  }
+
+  /**
+   * Moves the entry at the given position up until its parent has higher priority.
+   * @param index The position of the entry to move.
+   */
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.heap[index].value, this.heap[parent].value) >= 0) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  /**
+   * Moves the entry at the given position down until both children have lower priority.
+   * @param index The position of the entry to move.
+   */
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    while (true) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (
+        left < length &&
+        this.compare(this.heap[left].value, this.heap[smallest].value) < 0
+      ) {
+        smallest = left;
+      }
+      if (
+        right < length &&
+        this.compare(this.heap[right].value, this.heap[smallest].value) < 0
+      ) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  /**
+   * Swaps two heap entries and keeps their stored positions in sync.
+   * @param i The position of the first entry.
+   * @param j The position of the second entry.
+   */
+  private swap(i: number, j: number): void {
+    const a = this.heap[i];
+    const b = this.heap[j];
+    this.heap[i] = b;
+    this.heap[j] = a;
+    a.index = j;
+    b.index = i;
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertThrows,
+} from "jsr:@std/assert";
+import { CompactGraph } from "../structures/CompactGraph.ts";
+import {
+  Directed,
+  NegativeWeightError,
+  NodeNotFoundError,
+  Unidirected,
+} from "../structures/Graph.ts";
+
+type Item = { value: number; label: string };
+
+const items: Item[] = ["A", "B", "C", "D", "E"].map((label, value) => ({
+  value,
+  label,
+}));
+
+function collect(
+  traverse: (start: Item, visit: (data: Item) => unknown) => void,
+  start: Item,
+): string {
+  const labels: string[] = [];
+  traverse(start, (data) => labels.push(data.label));
+  return labels.join("");
+}
+
+Deno.test("CompactGraph - fromGraph matches a Directed graph", () => {
+  const graph = new Directed<Item>();
+  items.forEach((item) => graph.addNode(item));
+  graph.addEdge(items[0], items[1]);
+  graph.addWeightedEdge(items[0], items[2], 4);
+  graph.addWeightedEdge(items[1], items[2], 1);
+  graph.addEdge(items[2], items[3]);
+  graph.addEdge(items[3], items[0]);
+
+  const compact = CompactGraph.fromGraph(graph);
+  assert(compact.directed);
+  assertEquals(compact.edgeCount(), 5);
+  assertEquals(compact.getNodes(), items);
+  assertEquals(compact.getNeighbors(items[0]), [
+    { target: items[1] },
+    { target: items[2], weight: 4 },
+  ]);
+  assertEquals(compact.outDegree(items[4]), 0);
+  assert(compact.hasEdge(items[3], items[0]));
+  assert(!compact.hasEdge(items[0], items[3]));
+
+  for (const start of items) {
+    assertEquals(
+      collect(compact.bfs.bind(compact), start),
+      collect(graph.bfs.bind(graph), start),
+    );
+    assertEquals(
+      collect(compact.dfs.bind(compact), start),
+      collect(graph.dfs.bind(graph), start),
+    );
+    assertEquals(compact.dijkstra(start), graph.dijkstra(start));
+  }
+  assertEquals(compact.dijkstra(items[0]).distances.get(3), 3);
+});
+
+Deno.test("CompactGraph - fromEdgeList matches a Unidirected graph", () => {
+  const edges = [
+    { from: 0, to: 1, weight: 2 },
+    { from: 1, to: 2 },
+    { from: 2, to: 2 },
+    { from: 3, to: 0, weight: 7 },
+  ];
+  const graph = new Unidirected<Item>();
+  items.forEach((item) => graph.addNode(item));
+  for (const { from, to, weight } of edges) {
+    if (weight === undefined) graph.addEdge(items[from], items[to]);
+    else graph.addWeightedEdge(items[from], items[to], weight);
+  }
+
+  const compact = CompactGraph.fromEdgeList(items, edges, { directed: false });
+  assert(!compact.directed);
+  assertEquals(compact.edgeCount(), graph.edgeCount());
+  for (const item of items) {
+    assertEquals(
+      compact.getNeighbors(item),
+      graph.getNeighbors(item)!.map(({ target, weight }) =>
+        weight === undefined ? { target } : { target, weight }
+      ),
+    );
+    assertEquals(compact.outDegree(item), graph.degree(item));
+    assertEquals(compact.dijkstra(item), graph.dijkstra(item));
+  }
+  assertEquals(collect(compact.dfs.bind(compact), items[1]), "BCAD");
+  assertEquals(collect(compact.bfs.bind(compact), items[1]), "BACD");
+  // 6 offsets, 8 targets (both directions of 4 edges) and 8 weights
+  assertEquals(compact.byteLength(), 6 * 4 + 8 * 4 + 8 * 8);
+});
+
+Deno.test("CompactGraph - keys and early exit", () => {
+  const keyOf = (item: Item) => item.label;
+  const compact = CompactGraph.fromEdgeList(items, [
+    { from: "A", to: "B" },
+    { from: "B", to: "C" },
+    { from: "C", to: "D" },
+  ], { keyOf });
+
+  assertEquals(compact.getNodeByKey("C"), items[2]);
+  assertEquals(compact.getNodeByKey(2), undefined);
+  assert(compact.hasNode({ value: 99, label: "E" }));
+  assertEquals(compact.dijkstra(items[0]).distances.get("D"), 3);
+
+  const visited: string[] = [];
+  compact.bfs(items[0], (item) => {
+    visited.push(item.label);
+    return item.label !== "B";
+  });
+  assertEquals(visited, ["A", "B"]);
+
+  const error = assertThrows(
+    () => CompactGraph.fromEdgeList(items, [{ from: "A", to: "Z" }], { keyOf }),
+    NodeNotFoundError,
+    "edge 0 references unknown node Z",
+  );
+  assertEquals(error.key, "Z");
+});
+
+Deno.test("CompactGraph - failures follow the graph's strict mode", () => {
+  const errors: string[] = [];
+  const logger = {
+    info: () => {},
+    error: (message: string) => errors.push(message),
+  };
+  const graph = new Directed<Item>({ logger });
+  items.slice(0, 2).forEach((item) => graph.addNode(item));
+  graph.addWeightedEdge(items[0], items[1], -1);
+
+  const lenient = CompactGraph.fromGraph(graph, { logger });
+  assertEquals(lenient.dijkstra(items[0]).distances.size, 0);
+  lenient.bfs(items[4], () => {});
+  assertEquals(errors, [
+    "Dijkstra requires non-negative edge weights. Found negative weight.",
+    "BFS failed: Start node with data 4 not found.",
+  ]);
+  assertEquals(lenient.getNeighbors(items[4]), undefined);
+
+  const strict = CompactGraph.fromGraph(new Directed<Item>({ strict: true }));
+  assert(strict.strict);
+  assertInstanceOf(
+    assertThrows(() => strict.dfs(items[0], () => {})),
+    NodeNotFoundError,
+  );
+  graph.addNode(items[2]);
+  assertThrows(
+    () => CompactGraph.fromGraph(graph, { strict: true }).dijkstra(items[0]),
+    NegativeWeightError,
+  );
+});
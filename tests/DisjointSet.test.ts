@@ -0,0 +1,53 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+import { DisjointSet } from "../structures/DisjointSet.ts";
+
+Deno.test("DisjointSet - add and has", () => {
+  const set = new DisjointSet<number>([1, 2]);
+  assert(set.has(1));
+  assert(!set.has(3));
+  assert(set.add(3));
+  assert(!set.add(3));
+  assertEquals(set.size(), 3);
+  assertEquals(set.componentCount(), 3);
+});
+
+Deno.test("DisjointSet - union and find", () => {
+  const set = new DisjointSet<string>(["a", "b", "c", "d"]);
+  assert(set.union("a", "b"));
+  assert(set.union("c", "d"));
+  assert(!set.union("b", "a"));
+  assertEquals(set.find("a"), set.find("b"));
+  assert(set.find("a") !== set.find("c"));
+  assertEquals(set.find("z"), undefined);
+  assertEquals(set.componentCount(), 2);
+
+  assert(set.union("b", "d"));
+  assertEquals(set.componentCount(), 1);
+});
+
+Deno.test("DisjointSet - connected", () => {
+  const set = new DisjointSet<number>();
+  set.union(1, 2); // union adds missing elements
+  set.union(3, 4);
+  assert(set.connected(1, 2));
+  assert(!set.connected(1, 3));
+  assert(!set.connected(1, 99));
+  assert(!set.connected(99, 99));
+});
+
+Deno.test("DisjointSet - groups", () => {
+  const set = new DisjointSet<number>([1, 2, 3, 4, 5, 6]);
+  set.union(6, 2);
+  set.union(3, 5);
+  set.union(5, 1);
+  assertEquals(set.groups(), [[1, 3, 5], [2, 6], [4]]);
+});
+
+Deno.test("DisjointSet - long chains", () => {
+  const set = new DisjointSet<number>();
+  for (let i = 1; i < 100000; i++) {
+    set.union(i - 1, i);
+  }
+  assertEquals(set.componentCount(), 1);
+  assert(set.connected(0, 99999));
+});
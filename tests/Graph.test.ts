@@ -1,9 +1,30 @@
-import { Directed, Unidirected } from "../structures/Graph.ts"; // This should be the first import
+import {
+  CycleError,
+  Directed,
+  DuplicateEdgeError,
+  euclideanHeuristic,
+  floydWarshallPath,
+  GraphEdge,
+  GraphError,
+  type GraphLogger,
+  manhattanHeuristic,
+  NegativeCycleError,
+  NegativeWeightError,
+  NodeNotFoundError,
+  pathTo,
+  type PointData,
+  SelfLoopError,
+  Unidirected,
+} from "../structures/Graph.ts"; // This should be the first import
 import type { DataShapeWithValue } from "../interfaces/Comparable.ts";
 import {
+  assert,
+  assertAlmostEquals,
+  assertArrayIncludes,
   assertEquals,
   assertExists,
-  assertArrayIncludes,
+  assertInstanceOf,
+  assertThrows,
 } from "jsr:@std/assert";
 
 // Define a sample data type implementing DataShapeWithValue
@@ -623,8 +644,9 @@ Deno.test("Graph Data Structures", async (t) => {
 
       const consoleErrorCalls = spyConsoleError(() => {
         const emptyGraph = new Directed<TestData>();
-        const { distances, predecessors } =
-          emptyGraph.dijkstra(nonExistentNode);
+        const { distances, predecessors } = emptyGraph.dijkstra(
+          nonExistentNode,
+        );
 
         // Assert empty maps are returned
         assertEquals(distances.size, 0);
@@ -664,3 +686,2229 @@ Deno.test("Graph Data Structures", async (t) => {
     });
   });
 });
+
+Deno.test("Graph Shortest Path Reconstruction", async (t) => {
+  const a = createTestData(1, 10, "A");
+  const b = createTestData(2, 20, "B");
+  const c = createTestData(3, 30, "C");
+  const d = createTestData(4, 40, "D");
+  const e = createTestData(5, 50, "E");
+
+  // A -> B (1), B -> C (2), A -> C (5), C -> D (1); E is isolated
+  const buildGraph = () => {
+    const graph = new Directed<TestData>();
+    [a, b, c, d, e].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 1);
+    graph.addWeightedEdge(b, c, 2);
+    graph.addWeightedEdge(a, c, 5);
+    graph.addWeightedEdge(c, d, 1);
+    return graph;
+  };
+
+  await t.step("shortestPath should return the cheapest path and cost", () => {
+    const graph = buildGraph();
+    assertEquals(graph.shortestPath(a, d), { path: [a, b, c, d], cost: 4 });
+    assertEquals(graph.shortestPath(a, a), { path: [a], cost: 0 });
+  });
+
+  await t.step(
+    "shortestPath should return null for unreachable targets",
+    () => {
+      const graph = buildGraph();
+      assertEquals(graph.shortestPath(a, e), null);
+      assertEquals(graph.shortestPath(d, a), null);
+    },
+  );
+
+  await t.step("shortestPath should report missing nodes", () => {
+    const graph = buildGraph();
+    const missing = createTestData(99, 999, "Missing");
+    const calls = spyConsoleError(() => {
+      assertEquals(graph.shortestPath(a, missing), null);
+    });
+    assertEquals(calls, [
+      "Shortest path failed: Start (10) or target (999) node not found.",
+    ]);
+  });
+
+  await t.step("pathTo should rebuild paths from a dijkstra result", () => {
+    const graph = buildGraph();
+    const { distances, predecessors } = graph.dijkstra(a);
+
+    assertEquals(pathTo(predecessors, d), [a, b, c, d]);
+    assertEquals(pathTo(predecessors, a), [a]);
+    // Unreachable nodes have no predecessor and an infinite distance
+    assertEquals(pathTo(predecessors, e), [e]);
+    assertEquals(distances.get(e.value), Infinity);
+    assertEquals(pathTo(predecessors, createTestData(99, 999, "X")), []);
+  });
+});
+
+Deno.test("Graph Negative Weight Shortest Paths", async (t) => {
+  const a = createTestData(1, 10, "A");
+  const b = createTestData(2, 20, "B");
+  const c = createTestData(3, 30, "C");
+  const d = createTestData(4, 40, "D");
+
+  // A -> B (4), A -> C (5), C -> B (-3), B -> D (2)
+  const buildGraph = () => {
+    const graph = new Directed<TestData>();
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 4);
+    graph.addWeightedEdge(a, c, 5);
+    graph.addWeightedEdge(c, b, -3);
+    graph.addWeightedEdge(b, d, 2);
+    return graph;
+  };
+
+  await t.step("bellmanFord should handle negative edges", () => {
+    const graph = buildGraph();
+    const { distances, predecessors, negativeCycle } = graph.bellmanFord(a);
+
+    assertEquals(negativeCycle, null);
+    assertEquals(distances.get(a.value), 0);
+    assertEquals(distances.get(b.value), 2); // A -> C -> B
+    assertEquals(distances.get(c.value), 5);
+    assertEquals(distances.get(d.value), 4);
+    assertEquals(pathTo(predecessors, d), [a, c, b, d]);
+
+    const { distances: fromD } = graph.bellmanFord(d);
+    assertEquals(fromD.get(a.value), Infinity);
+  });
+
+  await t.step("bellmanFord should report a negative cycle", () => {
+    const graph = buildGraph();
+    graph.addWeightedEdge(b, c, 1); // C -> B -> C costs -2
+
+    const { negativeCycle } = graph.bellmanFord(a);
+    assertExists(negativeCycle);
+    assertEquals(negativeCycle.length, 2);
+    assertArrayIncludes(negativeCycle, [b, c]);
+  });
+
+  await t.step("bellmanFord should report a missing start node", () => {
+    const graph = buildGraph();
+    const calls = spyConsoleError(() => {
+      const result = graph.bellmanFord(createTestData(99, 999, "X"));
+      assertEquals(result.distances.size, 0);
+      assertEquals(result.negativeCycle, null);
+    });
+    assertEquals(calls, [
+      "Bellman-Ford failed: Start node with data 999 not found.",
+    ]);
+  });
+
+  await t.step("johnson should compute all-pairs distances", () => {
+    const graph = buildGraph();
+    const result = graph.johnson();
+    assertExists(result);
+
+    for (const source of graph.getNodes()) {
+      const expected = graph.bellmanFord(source).distances;
+      assertEquals(result.distances.get(source.value), expected);
+    }
+    assertEquals(result.distances.get(c.value)!.get(d.value), -1);
+    assertEquals(pathTo(result.predecessors.get(a.value)!, d), [a, c, b, d]);
+  });
+
+  await t.step("johnson should return null on negative cycles", () => {
+    const graph = buildGraph();
+    graph.addWeightedEdge(b, c, 1);
+    const calls = spyConsoleError(() => {
+      assertEquals(graph.johnson(), null);
+    });
+    assertEquals(calls, [
+      "Johnson failed: Graph contains a negative-weight cycle.",
+    ]);
+  });
+});
+
+Deno.test("Graph Floyd-Warshall", async (t) => {
+  const a = createTestData(1, 10, "A");
+  const b = createTestData(2, 20, "B");
+  const c = createTestData(3, 30, "C");
+  const d = createTestData(4, 40, "D");
+
+  await t.step("should compute all-pairs distances and next hops", () => {
+    const graph = new Directed<TestData>();
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 3);
+    graph.addWeightedEdge(b, c, -1);
+    graph.addWeightedEdge(a, c, 5);
+    graph.addWeightedEdge(c, a, 2);
+
+    const result = graph.floydWarshall();
+    assertEquals(result.nodes, [a, b, c, d]);
+    assertEquals(result.distances, [
+      [0, 3, 2, Infinity],
+      [1, 0, -1, Infinity],
+      [2, 5, 0, Infinity],
+      [Infinity, Infinity, Infinity, 0],
+    ]);
+    assertEquals(result.next[0][2], 1); // A reaches C via B
+    assertEquals(result.negativeCycleNodes, []);
+
+    assertEquals(floydWarshallPath(result, a, c), [a, b, c]);
+    assertEquals(floydWarshallPath(result, b, a), [b, c, a]);
+    assertEquals(floydWarshallPath(result, d, d), [d]);
+    assertEquals(floydWarshallPath(result, a, d), null);
+  });
+
+  await t.step("should match dijkstra on an unidirected graph", () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 4);
+    graph.addWeightedEdge(b, c, 1);
+    graph.addWeightedEdge(a, c, 7);
+    graph.addWeightedEdge(c, d, 2);
+
+    const result = graph.floydWarshall();
+    result.nodes.forEach((source, i) => {
+      const { distances } = graph.dijkstra(source);
+      result.nodes.forEach((target, j) => {
+        assertEquals(result.distances[i][j], distances.get(target.value));
+      });
+    });
+    assertEquals(floydWarshallPath(result, d, a), [d, c, b, a]);
+  });
+
+  await t.step("should flag negative cycles on the diagonal", () => {
+    const graph = new Directed<TestData>();
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 1);
+    graph.addWeightedEdge(b, c, -3);
+    graph.addWeightedEdge(c, b, 1);
+    graph.addWeightedEdge(d, a, 1);
+
+    const result = graph.floydWarshall();
+    assertEquals(result.negativeCycleNodes, [b, c]);
+    assert(result.distances[1][1] < 0);
+    assertEquals(floydWarshallPath(result, a, c), null);
+    assertEquals(floydWarshallPath(result, d, a), [d, a]);
+  });
+});
+
+Deno.test("Graph A* Search", async (t) => {
+  // 4x4 grid where cell (x, y) has value y * 4 + x; cells (1, 1), (1, 2) and (2, 1) are walls
+  const walls = new Set(["1,1", "1,2", "2,1"]);
+  const buildGrid = () => {
+    const graph = new Unidirected<PointData>();
+    const cells: PointData[][] = [];
+    for (let y = 0; y < 4; y++) {
+      cells.push([]);
+      for (let x = 0; x < 4; x++) {
+        const cell = { value: y * 4 + x, x, y };
+        cells[y].push(cell);
+        if (!walls.has(`${x},${y}`)) graph.addNode(cell);
+      }
+    }
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) {
+        if (walls.has(`${x},${y}`)) continue;
+        if (x + 1 < 4 && !walls.has(`${x + 1},${y}`)) {
+          graph.addEdge(cells[y][x], cells[y][x + 1]);
+        }
+        if (y + 1 < 4 && !walls.has(`${x},${y + 1}`)) {
+          graph.addEdge(cells[y][x], cells[y + 1][x]);
+        }
+      }
+    }
+    return { graph, cells };
+  };
+
+  await t.step("should find an optimal path around obstacles", () => {
+    const { graph, cells } = buildGrid();
+    const start = cells[0][0];
+    const goal = cells[2][2];
+
+    const result = graph.aStar(start, goal, manhattanHeuristic);
+    assertExists(result);
+    assertEquals(result.cost, 6);
+    assertEquals(result.path.length, 7);
+    assertEquals(result.path[0], start);
+    assertEquals(result.path[6], goal);
+    // Every step moves to an adjacent, open cell
+    for (let i = 1; i < result.path.length; i++) {
+      const prev = result.path[i - 1];
+      const curr = result.path[i];
+      assertEquals(Math.abs(prev.x - curr.x) + Math.abs(prev.y - curr.y), 1);
+      assert(!walls.has(`${curr.x},${curr.y}`));
+    }
+
+    assertEquals(graph.shortestPath(start, goal)?.cost, result.cost);
+  });
+
+  await t.step("should use edge weights and straight-line heuristics", () => {
+    const a: PointData = { value: 1, x: 0, y: 0 };
+    const b: PointData = { value: 2, x: 3, y: 4 };
+    const c: PointData = { value: 3, x: 6, y: 0 };
+    const graph = new Directed<PointData>();
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, c, 20);
+    graph.addWeightedEdge(a, b, 5);
+    graph.addWeightedEdge(b, c, 5);
+
+    assertEquals(euclideanHeuristic(a, b), 5);
+    assertEquals(graph.aStar(a, c, euclideanHeuristic), {
+      path: [a, b, c],
+      cost: 10,
+    });
+    assertEquals(graph.aStar(c, a, euclideanHeuristic), null);
+  });
+
+  await t.step("should report missing nodes and negative weights", () => {
+    const a: PointData = { value: 1, x: 0, y: 0 };
+    const b: PointData = { value: 2, x: 1, y: 0 };
+    const graph = new Directed<PointData>();
+    graph.addNode(a);
+    graph.addNode(b);
+    graph.addWeightedEdge(a, b, -1);
+
+    const calls = spyConsoleError(() => {
+      assertEquals(graph.aStar(a, { value: 9, x: 0, y: 0 }, () => 0), null);
+      assertEquals(graph.aStar(a, b, () => 0), null);
+    });
+    assertEquals(calls, [
+      "A* failed: Start (1) or goal (9) node not found.",
+      "A* requires non-negative edge weights. Found negative weight.",
+    ]);
+  });
+});
+
+Deno.test("Graph Topological Sort and Cycles", async (t) => {
+  const a = createTestData(1, 10, "A");
+  const b = createTestData(2, 20, "B");
+  const c = createTestData(3, 30, "C");
+  const d = createTestData(4, 40, "D");
+  const e = createTestData(5, 50, "E");
+
+  // Build pipeline: D -> B, D -> C, B -> A, C -> A, E is independent
+  const buildPipeline = () => {
+    const graph = new Directed<TestData>();
+    [d, c, b, a, e].forEach((node) => graph.addNode(node));
+    graph.addEdge(d, b);
+    graph.addEdge(d, c);
+    graph.addEdge(b, a);
+    graph.addEdge(c, a);
+    return graph;
+  };
+
+  const assertTopological = (graph: Directed<TestData>, order: TestData[]) => {
+    assertEquals(order.length, graph.getNodes().length);
+    const position = new Map(order.map((node, i) => [node.value, i]));
+    for (const node of graph.getNodes()) {
+      for (const edge of graph.getNeighbors(node)!) {
+        assert(position.get(node.value)! < position.get(edge.target.value)!);
+      }
+    }
+  };
+
+  await t.step("topologicalSort should respect every edge", () => {
+    const graph = buildPipeline();
+    const order = graph.topologicalSort();
+    assertTopological(graph, order);
+    assertEquals(order, [d, e, b, c, a]); // Insertion order breaks ties
+  });
+
+  await t.step("stableTopologicalSort should break ties by value", () => {
+    const graph = buildPipeline();
+    const order = graph.stableTopologicalSort();
+    assertTopological(graph, order);
+    assertEquals(order, [d, b, c, a, e]);
+  });
+
+  await t.step("hasCycle and findCycle on an acyclic graph", () => {
+    const graph = buildPipeline();
+    assertEquals(graph.hasCycle(), false);
+    assertEquals(graph.findCycle(), null);
+  });
+
+  await t.step("findCycle should return a concrete cycle", () => {
+    const graph = buildPipeline();
+    graph.addEdge(a, d); // A -> D closes D -> B -> A -> D
+
+    assertEquals(graph.hasCycle(), true);
+    const cycle = graph.findCycle();
+    assertExists(cycle);
+    for (let i = 0; i < cycle.length; i++) {
+      const next = cycle[(i + 1) % cycle.length];
+      assert(
+        graph.getNeighbors(cycle[i])!.some((edge) => edge.target === next),
+      );
+    }
+  });
+
+  await t.step("findCycle should detect self-loops", () => {
+    const graph = new Directed<TestData>();
+    graph.addNode(a);
+    graph.addEdge(a, a);
+    assertEquals(graph.findCycle(), [a]);
+  });
+
+  await t.step("topologicalSort should throw a CycleError", () => {
+    const graph = buildPipeline();
+    graph.addEdge(a, c);
+    graph.addEdge(c, a); // A <-> C
+
+    const error = assertThrows(
+      () => graph.topologicalSort(),
+      CycleError,
+      "Graph contains a cycle",
+    );
+    assertEquals(error.cycle.length, 2);
+    assertArrayIncludes(error.cycle, [a, c]);
+    assertThrows(() => graph.stableTopologicalSort(), CycleError);
+  });
+});
+
+Deno.test("Graph Strongly Connected Components", async (t) => {
+  const [a, b, c, d, e, f] = [1, 2, 3, 4, 5, 6].map((id) =>
+    createTestData(id, id * 10, String.fromCharCode(64 + id))
+  );
+
+  // {A, B, C} form a cycle, {D, E} form a cycle, F is alone
+  // A -> B -> C -> A, C -> D, D <-> E, E -> F, B -> F
+  const buildGraph = () => {
+    const graph = new Directed<TestData>();
+    [a, b, c, d, e, f].forEach((node) => graph.addNode(node));
+    graph.addEdge(a, b);
+    graph.addEdge(b, c);
+    graph.addEdge(c, a);
+    graph.addEdge(c, d);
+    graph.addEdge(d, e);
+    graph.addEdge(e, d);
+    graph.addEdge(e, f);
+    graph.addEdge(b, f);
+    return graph;
+  };
+
+  await t.step("should find components in topological order", () => {
+    const graph = buildGraph();
+    const expected = [[a, b, c], [d, e], [f]];
+    assertEquals(graph.stronglyConnectedComponents(), expected);
+  });
+
+  await t.step("should treat every node of a DAG as its own component", () => {
+    const graph = new Directed<TestData>();
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addEdge(c, b);
+    graph.addEdge(b, a);
+    assertEquals(graph.stronglyConnectedComponents(), [[c], [b], [a]]);
+  });
+
+  await t.step("should handle deep graphs without recursion", () => {
+    const graph = new Directed<TestData>();
+    const nodes = Array.from(
+      { length: 20000 },
+      (_, i) => createTestData(i, i, `N${i}`),
+    );
+    nodes.forEach((node) => graph.addNode(node));
+    for (let i = 0; i + 1 < nodes.length; i++) {
+      graph.addEdge(nodes[i], nodes[i + 1]);
+    }
+    graph.addEdge(nodes[nodes.length - 1], nodes[0]);
+    const components = graph.stronglyConnectedComponents();
+    assertEquals(components.length, 1);
+    assertEquals(components[0].length, nodes.length);
+  });
+
+  await t.step("condensation should build a DAG of components", () => {
+    const graph = buildGraph();
+    const dag = graph.condensation();
+    const [abc, de, fNode] = dag.getNodes();
+
+    const members = dag.getNodes().map((node) => node.members);
+    assertEquals(members, [[a, b, c], [d, e], [f]]);
+    const fromAbc = dag.getNeighbors(abc)!.map((edge) => edge.target);
+    assertEquals(fromAbc, [fNode, de]);
+    assertEquals(dag.getNeighbors(de)!.map((edge) => edge.target), [fNode]);
+    assertEquals(dag.getNeighbors(fNode), []);
+    assertEquals(dag.topologicalSort(), [abc, de, fNode]);
+  });
+
+  await t.step("condensation should keep strict mode and the logger", () => {
+    const errors: string[] = [];
+    const logger: GraphLogger = {
+      info: () => {},
+      error: (message) => errors.push(message),
+    };
+    const lenient = new Directed<TestData>({ logger });
+    [a, b].forEach((node) => lenient.addNode(node));
+    lenient.addEdge(a, b);
+    lenient.condensation().bfs({ value: 9, members: [] }, () => {});
+    assertEquals(errors, ["BFS failed: Start node with data 9 not found."]);
+
+    const strict = new Directed<TestData>({ strict: true, logger });
+    strict.addNode(a);
+    const dag = strict.condensation();
+    assert(dag.strict);
+    assertThrows(
+      () => dag.dfs({ value: 9, members: [] }, () => {}),
+      NodeNotFoundError,
+    );
+  });
+});
+
+Deno.test("Graph Minimum Spanning Tree", async (t) => {
+  const [a, b, c, d, e, f] = [1, 2, 3, 4, 5, 6].map((id) =>
+    createTestData(id, id * 10, String.fromCharCode(64 + id))
+  );
+
+  // A-B (4), A-C (1), B-C (2), B-D (5), C-D (8), D-E (3); F is isolated
+  const buildGraph = () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c, d, e, f].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 4);
+    graph.addWeightedEdge(a, c, 1);
+    graph.addWeightedEdge(b, c, 2);
+    graph.addWeightedEdge(b, d, 5);
+    graph.addWeightedEdge(c, d, 8);
+    graph.addWeightedEdge(d, e, 3);
+    return graph;
+  };
+
+  const edgeSet = (edges: { from: TestData; to: TestData }[]) =>
+    edges.map(({ from, to }) => [from.name, to.name].sort().join("")).sort();
+
+  await t.step("kruskal should pick the cheapest spanning forest", () => {
+    const { edges, totalWeight, tree } = buildGraph().minimumSpanningTree();
+    assertEquals(totalWeight, 11);
+    assertEquals(edgeSet(edges), ["AC", "BC", "BD", "DE"]);
+    assertEquals(edges[0], { from: a, to: c, weight: 1 });
+
+    assertEquals(tree.getNodes().length, 6);
+    assertEquals(tree.getNeighbors(f), []);
+    assertEquals(
+      tree.getNeighbors(b)!.map((edge) => [edge.target, edge.weight]),
+      [[c, 2], [d, 5]],
+    );
+  });
+
+  await t.step("prim should agree with kruskal", () => {
+    const graph = buildGraph();
+    const prim = graph.minimumSpanningTree({ algorithm: "prim" });
+    const kruskal = graph.minimumSpanningTree({ algorithm: "kruskal" });
+    assertEquals(prim.totalWeight, kruskal.totalWeight);
+    assertEquals(edgeSet(prim.edges), edgeSet(kruskal.edges));
+    // Prim grows outward from the first node
+    assertEquals(prim.edges[0], { from: a, to: c, weight: 1 });
+  });
+
+  await t.step("should return a forest for disconnected graphs", () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addEdge(a, b);
+    graph.addEdge(c, d);
+
+    for (const algorithm of ["kruskal", "prim"] as const) {
+      const { edges, totalWeight, tree } = graph.minimumSpanningTree({
+        algorithm,
+      });
+      assertEquals(edgeSet(edges), ["AB", "CD"]);
+      assertEquals(totalWeight, 2);
+      assertEquals(tree.getNeighbors(a)![0].weight, undefined);
+    }
+  });
+
+  await t.step("the tree should keep the graph's options", () => {
+    const errors: string[] = [];
+    const logger: GraphLogger = {
+      info: () => {},
+      error: (message) => errors.push(message),
+    };
+    const graph = new Unidirected<TestData>({
+      strict: true,
+      logger,
+      multigraph: false,
+      selfLoops: "reject",
+      keyOf: (data) => data.name,
+    });
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 1);
+    graph.addWeightedEdge(b, c, 2);
+
+    const { tree } = graph.minimumSpanningTree();
+    assert(tree.strict);
+    assert(!tree.multigraph);
+    assertEquals(tree.selfLoops, "reject");
+    assertEquals(tree.getNodeByKey("B"), b);
+    assertThrows(() => tree.addEdge(a, b), DuplicateEdgeError);
+
+    const lenient = new Unidirected<TestData>({ logger });
+    lenient.addNode(a);
+    lenient.minimumSpanningTree().tree.bfs(b, () => {});
+    assertEquals(errors, ["BFS failed: Start node with data 20 not found."]);
+  });
+});
+
+Deno.test("Graph Connected Components", async (t) => {
+  const [a, b, c, d, e] = [1, 2, 3, 4, 5].map((id) =>
+    createTestData(id, id * 10, String.fromCharCode(64 + id))
+  );
+
+  await t.step("connectedComponents on Unidirected", () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c, d, e].forEach((node) => graph.addNode(node));
+    graph.addEdge(a, c);
+    graph.addEdge(d, b);
+    assertEquals(graph.connectedComponents(), [[a, c], [b, d], [e]]);
+  });
+
+  await t.step("weaklyConnectedComponents on Directed", () => {
+    const graph = new Directed<TestData>();
+    [a, b, c, d, e].forEach((node) => graph.addNode(node));
+    graph.addEdge(a, b);
+    graph.addEdge(c, b); // A and C only meet at B
+    graph.addEdge(e, d);
+    assertEquals(graph.weaklyConnectedComponents(), [[a, b, c], [d, e]]);
+  });
+
+  await t.step("should handle empty graphs", () => {
+    assertEquals(new Unidirected<TestData>().connectedComponents(), []);
+  });
+});
+
+Deno.test("Graph Removal and Edge Queries", async (t) => {
+  const [a, b, c, d] = [1, 2, 3, 4].map((id) =>
+    createTestData(id, id * 10, String.fromCharCode(64 + id))
+  );
+
+  const buildDirected = () => {
+    const graph = new Directed<TestData>();
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 1);
+    graph.addWeightedEdge(b, c, 2);
+    graph.addWeightedEdge(c, a, 3);
+    graph.addWeightedEdge(a, d, 4);
+    return graph;
+  };
+
+  const buildUnidirected = () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 1);
+    graph.addWeightedEdge(b, c, 2);
+    graph.addWeightedEdge(a, c, 3);
+    return graph;
+  };
+
+  await t.step("hasEdge, getEdge and edgeCount", () => {
+    const directed = buildDirected();
+    assert(directed.hasEdge(a, b));
+    assert(!directed.hasEdge(b, a));
+    assertEquals(directed.getEdge(c, a)?.weight, 3);
+    assertEquals(directed.getEdge(d, a), undefined);
+    assertEquals(directed.edgeCount(), 4);
+
+    const unidirected = buildUnidirected();
+    assert(unidirected.hasEdge(a, b));
+    assert(unidirected.hasEdge(b, a));
+    assertEquals(unidirected.edgeCount(), 3);
+  });
+
+  await t.step("degree, inDegree and outDegree", () => {
+    const directed = buildDirected();
+    assertEquals(directed.outDegree(a), 2);
+    assertEquals(directed.inDegree(a), 1);
+    assertEquals(directed.degree(a), 3);
+    assertEquals(directed.degree(d), 1);
+
+    const unidirected = buildUnidirected();
+    assertEquals(unidirected.degree(a), 2);
+    assertEquals(unidirected.inDegree(a), 2);
+    assertEquals(unidirected.outDegree(a), 2);
+    assertEquals(unidirected.degree(d), 0);
+
+    const missing = createTestData(99, 999, "X");
+    assertEquals(directed.degree(missing), undefined);
+    assertEquals(unidirected.inDegree(missing), undefined);
+  });
+
+  await t.step("removeEdge on Directed only removes one direction", () => {
+    const graph = buildDirected();
+    graph.addEdge(b, a);
+    assert(graph.removeEdge(a, b));
+    assert(!graph.hasEdge(a, b));
+    assert(graph.hasEdge(b, a));
+    assert(!graph.removeEdge(a, b));
+    assertEquals(graph.edgeCount(), 4);
+  });
+
+  await t.step("removeEdge on Unidirected removes both directions", () => {
+    const graph = buildUnidirected();
+    assert(graph.removeEdge(b, a));
+    assert(!graph.hasEdge(a, b));
+    assert(!graph.hasEdge(b, a));
+    assertEquals(graph.edgeCount(), 2);
+    assertEquals(graph.getNeighbors(a)!.map((edge) => edge.target), [c]);
+  });
+
+  await t.step("updateEdgeWeight keeps symmetric weights in sync", () => {
+    const graph = buildUnidirected();
+    assert(graph.updateEdgeWeight(a, c, 10));
+    assertEquals(graph.getEdge(a, c)?.weight, 10);
+    assertEquals(graph.getEdge(c, a)?.weight, 10);
+    assert(!graph.updateEdgeWeight(a, d, 1));
+
+    const directed = buildDirected();
+    assert(directed.updateEdgeWeight(a, b, 7));
+    assertEquals(directed.shortestPath(a, b)?.cost, 7);
+  });
+
+  await t.step("removeNode drops the node and its edges", () => {
+    const directed = buildDirected();
+    assert(directed.removeNode(a));
+    assert(!directed.hasNode(a));
+    assertEquals(directed.getNodes(), [b, c, d]);
+    assertEquals(directed.getNeighbors(c), []);
+    assertEquals(directed.edgeCount(), 1);
+    assert(!directed.removeNode(a));
+
+    const unidirected = buildUnidirected();
+    unidirected.removeNode(b);
+    assertEquals(unidirected.getNodes(), [a, c, d]);
+    assertEquals(unidirected.edgeCount(), 1);
+    assertEquals(unidirected.getNeighbors(c)!.map((edge) => edge.target), [a]);
+
+    // Algorithms keep working on the shrunken graph
+    assertEquals(unidirected.dijkstra(a).distances.get(c.value), 3);
+    assertEquals(unidirected.dijkstra(a).distances.has(b.value), false);
+  });
+});
+
+Deno.test("Graph Maximum Flow", async (t) => {
+  const [s, v1, v2, v3, v4, sink] = [1, 2, 3, 4, 5, 6].map((id) =>
+    createTestData(id, id * 10, ["s", "v1", "v2", "v3", "v4", "t"][id - 1])
+  );
+
+  // Classic textbook network with a maximum flow of 23
+  const buildNetwork = () => {
+    const graph = new Directed<TestData>();
+    [s, v1, v2, v3, v4, sink].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(s, v1, 16);
+    graph.addWeightedEdge(s, v2, 13);
+    graph.addWeightedEdge(v1, v3, 12);
+    graph.addWeightedEdge(v2, v1, 4);
+    graph.addWeightedEdge(v2, v4, 14);
+    graph.addWeightedEdge(v3, v2, 9);
+    graph.addWeightedEdge(v3, sink, 20);
+    graph.addWeightedEdge(v4, v3, 7);
+    graph.addWeightedEdge(v4, sink, 4);
+    return graph;
+  };
+
+  for (const algorithm of ["edmonds-karp", "dinic"] as const) {
+    await t.step(`${algorithm} should find the maximum flow`, () => {
+      const graph = buildNetwork();
+      const result = graph.maxFlow(s, sink, { algorithm });
+      assertExists(result);
+      assertEquals(result.value, 23);
+
+      // Capacity and conservation constraints hold for every node
+      const balance = new Map<number, number>();
+      for (const { from, to, capacity, flow } of result.flows) {
+        assert(flow >= 0 && flow <= capacity);
+        balance.set(from.value, (balance.get(from.value) ?? 0) - flow);
+        balance.set(to.value, (balance.get(to.value) ?? 0) + flow);
+      }
+      for (const node of [v1, v2, v3, v4]) {
+        assertEquals(balance.get(node.value), 0);
+      }
+      assertEquals(balance.get(sink.value), 23);
+
+      assertEquals(result.minCut.sourceSide, [s, v1, v2, v4]);
+      assertEquals(result.minCut.edges, [
+        { from: v1, to: v3, capacity: 12 },
+        { from: v4, to: v3, capacity: 7 },
+        { from: v4, to: sink, capacity: 4 },
+      ]);
+    });
+  }
+
+  await t.step("should not mutate the graph", () => {
+    const graph = buildNetwork();
+    graph.maxFlow(s, sink);
+    assertEquals(graph.getEdge(s, v1)?.weight, 16);
+    assertEquals(graph.edgeCount(), 9);
+  });
+
+  await t.step("should treat unweighted edges as unit capacity", () => {
+    const graph = new Directed<TestData>();
+    [s, v1, v2, sink].forEach((node) => graph.addNode(node));
+    graph.addEdge(s, v1);
+    graph.addEdge(s, v2);
+    graph.addEdge(v1, sink);
+    graph.addEdge(v2, sink);
+    graph.addEdge(v1, v2);
+    assertEquals(graph.maxFlow(s, sink)?.value, 2);
+
+    const disconnected = new Directed<TestData>();
+    disconnected.addNode(s);
+    disconnected.addNode(sink);
+    const result = disconnected.maxFlow(s, sink);
+    assertEquals(result?.value, 0);
+    assertEquals(result?.minCut, { sourceSide: [s], edges: [] });
+  });
+
+  await t.step("should report finite flows on uncapped edges", () => {
+    const graph = new Directed<TestData>();
+    [s, v1, sink].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(s, v1, Infinity);
+    graph.addWeightedEdge(v1, sink, 5);
+    for (const algorithm of ["edmonds-karp", "dinic"] as const) {
+      const result = graph.maxFlow(s, sink, { algorithm });
+      assertEquals(result?.value, 5);
+      assertEquals(result?.flows.map(({ flow }) => flow), [5, 5]);
+      assertEquals(result?.minCut.edges, [{ from: v1, to: sink, capacity: 5 }]);
+    }
+  });
+
+  await t.step("should report invalid input", () => {
+    const graph = buildNetwork();
+    graph.addWeightedEdge(v1, v2, -1);
+    const calls = spyConsoleError(() => {
+      assertEquals(graph.maxFlow(s, createTestData(9, 999, "X")), null);
+      assertEquals(graph.maxFlow(s, s), null);
+      assertEquals(graph.maxFlow(s, sink), null);
+    });
+    assertEquals(calls, [
+      "Max flow failed: Source (10) or sink (999) node not found.",
+      "Max flow failed: Source and sink must be different nodes.",
+      "Max flow requires non-negative edge capacities. Found negative weight.",
+    ]);
+  });
+});
+
+Deno.test("Graph Bipartite Matching", async (t) => {
+  const [w1, w2, w3, j1, j2, j3] = [1, 2, 3, 4, 5, 6].map((id) =>
+    createTestData(id, id * 10, ["w1", "w2", "w3", "j1", "j2", "j3"][id - 1])
+  );
+
+  // Workers w1..w3 and the jobs they can do, with costs
+  const buildAssignment = () => {
+    const graph = new Unidirected<TestData>();
+    [w1, w2, w3, j1, j2, j3].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(w1, j1, 4);
+    graph.addWeightedEdge(w1, j2, 1);
+    graph.addWeightedEdge(w1, j3, 3);
+    graph.addWeightedEdge(w2, j1, 2);
+    graph.addWeightedEdge(w2, j2, 0);
+    graph.addWeightedEdge(w2, j3, 5);
+    graph.addWeightedEdge(w3, j1, 3);
+    graph.addWeightedEdge(w3, j2, 2);
+    graph.addWeightedEdge(w3, j3, 2);
+    return graph;
+  };
+
+  await t.step("isBipartite should return the two sides", () => {
+    const graph = buildAssignment();
+    assertEquals(graph.isBipartite(), {
+      bipartite: true,
+      left: [w1, w2, w3],
+      right: [j1, j2, j3],
+    });
+  });
+
+  await t.step("isBipartite should return an odd cycle witness", () => {
+    const graph = buildAssignment();
+    graph.addEdge(w1, w2); // w1 - j1 - w2 - w1 is a triangle
+
+    const result = graph.isBipartite();
+    assert(!result.bipartite);
+    const cycle = result.oddCycle;
+    assertEquals(cycle.length % 2, 1);
+    for (let i = 0; i < cycle.length; i++) {
+      assert(graph.hasEdge(cycle[i], cycle[(i + 1) % cycle.length]));
+    }
+
+    const loop = new Unidirected<TestData>();
+    loop.addNode(w1);
+    loop.addEdge(w1, w1);
+    assertEquals(loop.isBipartite(), { bipartite: false, oddCycle: [w1] });
+  });
+
+  await t.step("maximumBipartiteMatching should match every worker", () => {
+    const graph = new Unidirected<TestData>();
+    [w1, w2, w3, j1, j2, j3].forEach((node) => graph.addNode(node));
+    // Greedy w1-j1 would block w2; Hopcroft-Karp must reroute
+    graph.addEdge(w1, j1);
+    graph.addEdge(w1, j2);
+    graph.addEdge(w2, j1);
+    graph.addEdge(w3, j2);
+    graph.addEdge(w3, j3);
+
+    const result = graph.maximumBipartiteMatching();
+    assertExists(result);
+    assertEquals(result.size, 3);
+    assertEquals(result.pairs, [
+      { left: w1, right: j2 },
+      { left: w2, right: j1 },
+      { left: w3, right: j3 },
+    ]);
+  });
+
+  await t.step("maximumBipartiteMatching with an explicit left side", () => {
+    const graph = new Unidirected<TestData>();
+    [j1, w1, w2].forEach((node) => graph.addNode(node));
+    graph.addEdge(w1, j1);
+    graph.addEdge(w2, j1);
+
+    // Without `left`, j1 (added first) would be placed on the left side
+    const result = graph.maximumBipartiteMatching({ left: [w1, w2] });
+    assertEquals(result, { size: 1, pairs: [{ left: w1, right: j1 }] });
+
+    const calls = spyConsoleError(() => {
+      assertEquals(graph.maximumBipartiteMatching({ left: [w1, j1] }), null);
+    });
+    assertEquals(calls, [
+      "Bipartite matching failed: Edge between 40 and 10 does not cross the bipartition.",
+    ]);
+  });
+
+  await t.step("minimumCostAssignment should minimise total weight", () => {
+    const result = buildAssignment().minimumCostAssignment();
+    assertExists(result);
+    assertEquals(result.totalWeight, 5);
+    assertEquals(result.pairs, [
+      { left: w1, right: j2, weight: 1 },
+      { left: w2, right: j1, weight: 2 },
+      { left: w3, right: j3, weight: 2 },
+    ]);
+  });
+
+  await t.step("minimumCostAssignment prefers more pairs", () => {
+    const graph = new Unidirected<TestData>();
+    [w1, w2, j1, j2, j3].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(w1, j1, 1);
+    graph.addWeightedEdge(w2, j1, 1);
+    graph.addWeightedEdge(w1, j2, 50); // Needed so both workers get a job
+    graph.addWeightedEdge(w2, j3, 100);
+
+    const result = graph.minimumCostAssignment();
+    assertEquals(result?.totalWeight, 51);
+    assertEquals(result?.pairs.map(({ left, right }) => [left, right]), [
+      [w1, j2],
+      [w2, j1],
+    ]);
+  });
+
+  await t.step("matching should reject non-bipartite graphs", () => {
+    const graph = buildAssignment();
+    graph.addEdge(w1, w2);
+    const calls = spyConsoleError(() => {
+      assertEquals(graph.maximumBipartiteMatching(), null);
+      assertEquals(graph.minimumCostAssignment(), null);
+    });
+    assertEquals(calls.length, 2);
+    assertEquals(
+      calls[0],
+      "Bipartite matching failed: Graph is not bipartite.",
+    );
+  });
+});
+
+Deno.test("Graph Articulation Points and Bridges", async (t) => {
+  const [a, b, c, d, e, f, g] = [1, 2, 3, 4, 5, 6, 7].map((id) =>
+    createTestData(id, id * 10, String.fromCharCode(64 + id))
+  );
+
+  // Triangle A-B-C, bridge C-D, triangle D-E-F, isolated G
+  const buildNetwork = () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c, d, e, f, g].forEach((node) => graph.addNode(node));
+    graph.addEdge(a, b);
+    graph.addEdge(b, c);
+    graph.addEdge(c, a);
+    graph.addEdge(c, d);
+    graph.addEdge(d, e);
+    graph.addEdge(e, f);
+    graph.addEdge(f, d);
+    return graph;
+  };
+
+  await t.step("articulationPoints should find cut vertices", () => {
+    assertEquals(buildNetwork().articulationPoints(), [c, d]);
+  });
+
+  await t.step("bridges should find cut edges", () => {
+    assertEquals(buildNetwork().bridges(), [{ from: c, to: d }]);
+  });
+
+  await t.step("parallel edges are not bridges", () => {
+    const graph = buildNetwork();
+    graph.addEdge(d, c);
+    assertEquals(graph.bridges(), []);
+    assertEquals(graph.articulationPoints(), [c, d]);
+  });
+
+  await t.step("biconnectedComponents should split at cut vertices", () => {
+    const components = buildNetwork().biconnectedComponents();
+    assertEquals(components.length, 3);
+    assertArrayIncludes(components, [[a, b, c], [c, d], [d, e, f]]);
+  });
+
+  await t.step("should handle long paths without recursion", () => {
+    const graph = new Unidirected<TestData>();
+    const nodes = Array.from(
+      { length: 20000 },
+      (_, i) => createTestData(i, i, `N${i}`),
+    );
+    nodes.forEach((node) => graph.addNode(node));
+    for (let i = 0; i + 1 < nodes.length; i++) {
+      graph.addEdge(nodes[i], nodes[i + 1]);
+    }
+    assertEquals(graph.articulationPoints().length, nodes.length - 2);
+    assertEquals(graph.bridges().length, nodes.length - 1);
+    assertEquals(graph.biconnectedComponents().length, nodes.length - 1);
+  });
+});
+
+Deno.test("Graph DOT Export and Import", async (t) => {
+  const [a, b, c] = [1, 2, 3].map((id) =>
+    createTestData(id, id * 10, String.fromCharCode(64 + id))
+  );
+
+  await t.step("toDOT should emit a digraph", () => {
+    const graph = new Directed<TestData>();
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 5);
+    graph.addEdge(b, c);
+
+    assertEquals(
+      graph.toDOT({ name: "deps", nodeLabel: (node) => node.name }),
+      [
+        'digraph "deps" {',
+        '  "10" [label="A"];',
+        '  "20" [label="B"];',
+        '  "30" [label="C"];',
+        '  "10" -> "20" [label="5"];',
+        '  "20" -> "30";',
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  await t.step("toDOT should list unidirected edges once", () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(b, a, 2);
+    graph.addEdge(c, c);
+
+    assertEquals(
+      graph.toDOT(),
+      [
+        'graph "G" {',
+        '  "10";',
+        '  "20";',
+        '  "30";',
+        '  "10" -- "20" [label="2"];',
+        '  "30" -- "30";',
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  await t.step("toDOT should highlight paths and edges", () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addEdge(a, b);
+    graph.addEdge(b, c);
+    graph.addEdge(a, c);
+
+    const dot = graph.toDOT({
+      highlightPath: [c, b],
+      highlightEdges: [{ from: c, to: a }],
+      highlightColor: "blue",
+    });
+    assert(dot.includes('  "20" [color="blue"];'));
+    assert(dot.includes('  "10" -- "20";'));
+    assert(dot.includes('  "20" -- "30" [color="blue", penwidth="2"];'));
+    assert(dot.includes('  "10" -- "30" [color="blue", penwidth="2"];'));
+  });
+
+  await t.step("fromDOT should round-trip toDOT output", () => {
+    const graph = new Directed<TestData>();
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 1.5);
+    graph.addEdge(c, a);
+
+    const dot = graph.toDOT({ nodeLabel: (node) => `Node "${node.name}"` });
+    const copy = Directed.fromDOT(dot);
+    assertEquals(copy.getNodes(), [
+      { value: 10, label: 'Node "A"' },
+      { value: 20, label: 'Node "B"' },
+      { value: 30, label: 'Node "C"' },
+    ]);
+    const [ca, cb, cc] = copy.getNodes();
+    assertEquals(copy.getEdge(ca, cb)?.weight, 1.5);
+    assertEquals(copy.getEdge(cc, ca)?.weight, undefined);
+    assertEquals(copy.toDOT({ nodeLabel: (node) => String(node.label) }), dot);
+
+    const undirected = new Unidirected<TestData>();
+    [a, b].forEach((node) => undirected.addNode(node));
+    undirected.addWeightedEdge(a, b, 3);
+    const undirectedCopy = Unidirected.fromDOT(undirected.toDOT());
+    assertEquals(undirectedCopy.edgeCount(), 1);
+    assertEquals(undirectedCopy.toDOT(), undirected.toDOT());
+  });
+
+  await t.step("fromDOT should accept hand-written fixtures", () => {
+    const graph = Directed.fromDOT(
+      `// pipeline fixture
+      strict digraph pipeline {
+        rankdir=LR;
+        node [shape=box];
+        1 [label=fetch];
+        1 -> 2 [label=-4, color=red]
+        2 -> 3; /* implicit node 3 */
+      }`,
+      (id, attributes) => ({ value: Number(id) * 100, name: attributes.label }),
+    );
+    const [n1, n2, n3] = graph.getNodes();
+    assertEquals(graph.getNodes(), [
+      { value: 100, name: "fetch" },
+      { value: 200, name: undefined },
+      { value: 300, name: undefined },
+    ]);
+    assertEquals(graph.getEdge(n1, n2)?.weight, -4);
+    assert(graph.hasEdge(n2, n3));
+  });
+
+  await t.step("fromDOT should reject unsupported input", () => {
+    assertThrows(
+      () => Directed.fromDOT('graph { "1" -- "2" }'),
+      Error,
+      "expected a digraph",
+    );
+    assertThrows(
+      () => Unidirected.fromDOT('graph { "1" -> "2" }'),
+      Error,
+      "'->' edges are not allowed in a graph",
+    );
+    assertThrows(
+      () => Directed.fromDOT("digraph { a -> b }"),
+      Error,
+      "node ID 'a' is not a number",
+    );
+    assertThrows(
+      () => Directed.fromDOT("digraph { 1 -> 2 -> 3 }"),
+      Error,
+      "edge chains are not supported",
+    );
+    assertThrows(
+      () => Directed.fromDOT('digraph { "1 }'),
+      Error,
+      "unterminated string",
+    );
+  });
+});
+
+Deno.test("Graph JSON and Edge List Serialization", async (t) => {
+  const a = createTestData(1, 10, "A");
+  const b = createTestData(2, 20, "B");
+  const c = createTestData(3, 30, "C");
+  const d = createTestData(4, 40, "D");
+
+  await t.step("toJSON should produce the versioned schema", () => {
+    const graph = new Directed<TestData>();
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 2.5);
+    graph.addEdge(b, c);
+
+    assertEquals(graph.toJSON(), {
+      version: 1,
+      directed: true,
+      nodes: [a, b, c],
+      edges: [
+        { from: 10, to: 20, weight: 2.5 },
+        { from: 20, to: 30 },
+      ],
+    });
+  });
+
+  await t.step("fromJSON should round-trip through JSON text", () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 3);
+    graph.addWeightedEdge(b, c, -1);
+    graph.addEdge(c, c);
+
+    const text = JSON.stringify(graph);
+    assertEquals(JSON.parse(text).edges.length, 3);
+
+    // Methods on the node records do not survive JSON, plain fields do
+    const copy = Unidirected.fromJSON<TestData>(text);
+    assertEquals(
+      copy.getNodes().map(({ id, value, name }) => ({ id, value, name })),
+      [a, b, c, d].map(({ id, value, name }) => ({ id, value, name })),
+    );
+    assertEquals(copy.edgeCount(), graph.edgeCount());
+    assertEquals(JSON.stringify(copy), text);
+  });
+
+  await t.step("fromJSON should reject invalid documents", () => {
+    assertThrows(
+      () =>
+        Directed.fromJSON({
+          version: 1,
+          directed: true,
+          nodes: [a],
+          edges: [{ from: 10, to: 42 }],
+        }),
+      Error,
+      "edge 0 references unknown node 42",
+    );
+    assertThrows(
+      () => Unidirected.fromJSON(JSON.stringify(new Directed<TestData>())),
+      Error,
+      "expected an unidirected graph",
+    );
+    assertThrows(
+      () => Directed.fromJSON('{"version":2,"directed":true}'),
+      Error,
+      "unsupported version 2",
+    );
+  });
+
+  await t.step("toEdgeList should write CSV and TSV", () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 4);
+    graph.addEdge(c, b);
+
+    assertEquals(graph.toEdgeList(), "from,to,weight\n10,20,4\n20,30,\n");
+    assertEquals(
+      graph.toEdgeList({ delimiter: "\t", header: false }),
+      "10\t20\t4\n20\t30\t\n",
+    );
+  });
+
+  await t.step("fromEdgeList should read edge lists", () => {
+    const graph = Directed.fromEdgeList("from,to,weight\n1,2,5\n2,3\n\n3,1,\n");
+    assertEquals(graph.getNodes(), [{ value: 1 }, { value: 2 }, {
+      value: 3,
+    }]);
+    const [n1, n2, n3] = graph.getNodes();
+    assertEquals(graph.getEdge(n1, n2)?.weight, 5);
+    assertEquals(graph.getEdge(n2, n3)?.weight, undefined);
+    assert(graph.hasEdge(n3, n1));
+
+    const tsv = Unidirected.fromEdgeList<TestData>("10\t20\t1.5\n", {
+      delimiter: "\t",
+      nodes: [a, b, c],
+    });
+    assertEquals(tsv.getNodes(), [a, b, c]);
+    assertEquals(tsv.getEdge(b, a)?.weight, 1.5);
+  });
+
+  await t.step("fromEdgeList should report unknown nodes and bad rows", () => {
+    assertThrows(
+      () => Directed.fromEdgeList("10,20\n10,99\n", { nodes: [a, b] }),
+      Error,
+      "line 2 references unknown node 99",
+    );
+    assertThrows(
+      () => Directed.fromEdgeList("1,2,heavy\n"),
+      Error,
+      "line 1 has a non-numeric weight 'heavy'",
+    );
+    assertThrows(
+      () => Directed.fromEdgeList("1,2\n1\n"),
+      Error,
+      "line 2 must have 2 or 3 fields",
+    );
+  });
+});
+
+Deno.test("Graph Custom Node Identity", async (t) => {
+  type City = { value: number; id: string };
+  const city = (id: string): City => ({ value: 0, id });
+  const byId = { keyOf: (data: City) => data.id };
+
+  await t.step("nodes sharing a value should stay distinct", () => {
+    const graph = new Directed<City>(byId);
+    const [a, b, c] = [city("a"), city("b"), city("c")];
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 1);
+    graph.addWeightedEdge(b, c, 2);
+
+    assertEquals(graph.getNodes().length, 3);
+    assertEquals(graph.getNodeByKey("b"), b);
+    assertEquals(graph.getNodeByKey("z"), undefined);
+
+    const { distances, predecessors } = graph.dijkstra(a);
+    assertEquals(distances.get("c"), 3);
+    assertEquals(pathTo(predecessors, c, graph.keyOf), [a, b, c]);
+    assertEquals(graph.shortestPath(a, c)?.path, [a, b, c]);
+
+    const visited: string[] = [];
+    graph.bfs(a, (node) => visited.push(node.id));
+    assertEquals(visited, ["a", "b", "c"]);
+  });
+
+  await t.step("structurally equal copies should find stored nodes", () => {
+    const graph = new Unidirected<City>(byId);
+    const [a, b] = [city("a"), city("b")];
+    graph.addNode(a);
+    graph.addNode(b);
+    graph.addNode(city("a")); // same key: ignored
+
+    assert(graph.hasNode(city("a")));
+    graph.addEdge(city("a"), city("b"));
+    assertEquals(graph.getNodes(), [a, b]);
+    assert(graph.getEdge(a, b)?.target === b);
+    assert(graph.getEdge(b, a)?.target === a);
+
+    assert(graph.removeNode(city("a")));
+    assertEquals(graph.getNodes(), [b]);
+    assertEquals(graph.getNeighbors(b), []);
+  });
+
+  await t.step("keys should flow through serialization and errors", () => {
+    const graph = new Directed<City>(byId);
+    const [a, b] = [city("a"), city("b")];
+    [a, b].forEach((node) => graph.addNode(node));
+    graph.addEdge(a, b);
+    graph.addEdge(b, a);
+
+    assertThrows(() => graph.topologicalSort(), CycleError, "a -> b -> a");
+    assertEquals(graph.toJSON().edges, [
+      { from: "a", to: "b" },
+      { from: "b", to: "a" },
+    ]);
+    assertEquals(
+      Directed.fromJSON<City>(JSON.stringify(graph), byId).getNodes(),
+      [a, b],
+    );
+
+    const csv = Directed.fromEdgeList<City>("a,b,2\n", {
+      ...byId,
+      nodes: [a, b],
+    });
+    assertEquals(csv.getEdge(a, b)?.weight, 2);
+    assertEquals(csv.toEdgeList({ header: false }), "a,b,2\n");
+  });
+
+  await t.step("readers should need node data for a custom keyOf", () => {
+    assertThrows(
+      () => Directed.fromEdgeList<City>("a,b,2\n", byId),
+      Error,
+      "Invalid edge list: pass nodes to read a graph with a custom keyOf",
+    );
+    assertThrows(
+      () => Unidirected.fromDOT<City>('graph { "a" -- "b" }', undefined, byId),
+      Error,
+      "Invalid DOT: pass toData to create the nodes of a graph with a custom keyOf",
+    );
+
+    const dot = Unidirected.fromDOT<City>(
+      'graph { "a" -- "b" [label="4"] }',
+      (id) => city(id),
+      byId,
+    );
+    assertEquals(dot.getNodeByKey("b"), city("b"));
+    assertEquals(dot.getEdge(city("a"), city("b"))?.weight, 4);
+  });
+});
+
+Deno.test("Graph Errors, Logging and Events", async (t) => {
+  const a = createTestData(1, 10, "A");
+  const b = createTestData(2, 20, "B");
+  const c = createTestData(3, 30, "C");
+  const missing = createTestData(9, 90, "Z");
+
+  await t.step("strict mode should throw typed errors", () => {
+    const graph = new Directed<TestData>({ strict: true });
+    [a, b].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, -1);
+
+    const error = assertThrows(
+      () => graph.bfs(missing, () => {}),
+      NodeNotFoundError,
+      "BFS failed: Start node with data 90 not found.",
+    );
+    assertEquals(error.key, 90);
+    assertThrows(() => graph.addEdge(a, missing), NodeNotFoundError);
+    assertThrows(() => graph.shortestPath(missing, a), NodeNotFoundError);
+
+    const negative = assertThrows(
+      () => graph.dijkstra(a),
+      NegativeWeightError,
+      "Dijkstra requires non-negative edge weights.",
+    );
+    assertEquals(negative.weight, -1);
+
+    graph.addWeightedEdge(b, a, -1);
+    assertThrows(() => graph.johnson(), NegativeCycleError);
+    assertThrows(() => graph.maxFlow(a, a), GraphError, "must be different");
+    assert(new CycleError([a]) instanceof GraphError);
+  });
+
+  await t.step("non-strict mode should report to the logger", () => {
+    const messages: string[] = [];
+    const errors: string[] = [];
+    const logger: GraphLogger = {
+      info: (message) => messages.push(message),
+      error: (message) => errors.push(message),
+    };
+    const graph = new Unidirected<TestData>({ logger });
+    [a, b].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 2);
+
+    assertEquals(graph.aStar(a, missing, () => 0), null);
+    assertEquals(errors, [
+      "A* failed: Start (10) or goal (90) node not found.",
+    ]);
+    assertEquals(messages, [
+      "Created an Unidirected Graph",
+      "Added node with data: 10",
+      "Added node with data: 20",
+      "Added unidirected weighted edge between 10 and 20 with weight 2",
+    ]);
+  });
+
+  await t.step("default logger should only print errors", () => {
+    const log = console.log;
+    const printed: unknown[] = [];
+    console.log = (...args: unknown[]) => printed.push(args);
+    try {
+      const graph = new Directed<TestData>();
+      graph.addNode(a);
+      graph.addNode(b);
+      graph.addEdge(a, b);
+    } finally {
+      console.log = log;
+    }
+    assertEquals(printed, []);
+
+    const calls = spyConsoleError(() => {
+      new Directed<TestData>().dfs(missing, () => {});
+    });
+    assertEquals(calls, ["DFS failed: Start node with data 90 not found."]);
+  });
+
+  await t.step("listeners should observe mutations", () => {
+    const graph = new Unidirected<TestData>();
+    const events: string[] = [];
+    graph.onNodeAdded((node) => events.push(`+node ${node.value}`));
+    graph.onNodeRemoved((node) => events.push(`-node ${node.value}`));
+    const stop = graph.onEdgeAdded(({ from, to, weight }) =>
+      events.push(`+edge ${from.value}-${to.value} ${weight}`)
+    );
+    graph.onEdgeRemoved(({ from, to }) =>
+      events.push(`-edge ${from.value}-${to.value}`)
+    );
+
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addNode(a); // duplicate: no event
+    graph.addWeightedEdge(a, b, 5);
+    graph.addEdge(c, c);
+    stop();
+    graph.addEdge(b, c);
+    graph.removeEdge(b, a);
+    graph.removeEdge(c, c);
+    graph.removeEdge(a, c); // no such edge: no event
+    graph.removeNode(c);
+
+    assertEquals(events, [
+      "+node 10",
+      "+node 20",
+      "+node 30",
+      "+edge 10-20 5",
+      "+edge 30-30 undefined",
+      "-edge 20-10",
+      "-edge 30-30",
+      "-edge 20-30",
+      "-node 30",
+    ]);
+  });
+
+  await t.step("removeNode should report the edges it removes", () => {
+    for (
+      const graph of [new Directed<TestData>(), new Unidirected<TestData>()]
+    ) {
+      // Tracks the live edges by ID, as an app mirroring the graph would
+      const live: Set<number> = new Set();
+      graph.onEdgeAdded(({ id }) => live.add(id));
+      graph.onEdgeRemoved(({ id }) => {
+        assert(live.delete(id), `edge ${id} removed twice`);
+      });
+      const order: string[] = [];
+      graph.onEdgeRemoved(() => order.push("edge"));
+      graph.onNodeRemoved(() => order.push("node"));
+
+      [a, b, c].forEach((node) => graph.addNode(node));
+      graph.addEdge(a, b);
+      graph.addEdge(b, a);
+      graph.addEdge(b, b);
+      graph.addEdge(b, c);
+      graph.addEdge(a, c);
+      graph.removeNode(b);
+
+      assertEquals([...live], [graph.getEdge(a, c)!.id]);
+      assertEquals(order, ["edge", "edge", "edge", "edge", "node"]);
+    }
+  });
+});
+
+Deno.test("Graph Lazy Traversals", async (t) => {
+  const [a, b, c, d, e] = [1, 2, 3, 4, 5].map((i) =>
+    createTestData(i, i * 10, String.fromCharCode(64 + i))
+  );
+  const graph = new Directed<TestData>();
+  [a, b, c, d, e].forEach((node) => graph.addNode(node));
+  graph.addEdge(a, b);
+  graph.addEdge(a, c);
+  graph.addEdge(b, d);
+  graph.addEdge(c, d);
+  // e is disconnected
+
+  const describe = (steps: Iterable<{ node: TestData; depth: number }>) =>
+    [...steps].map(({ node, depth }) => `${node.name}${depth}`);
+
+  await t.step("bfsIter should yield depth and parent", () => {
+    const steps = [...graph.bfsIter(a)];
+    assertEquals(describe(steps), ["A0", "B1", "C1", "D2"]);
+    assertEquals(steps[3].parent, b);
+    assertEquals(steps[0].parent, null);
+  });
+
+  await t.step("bfsIter should support multiple sources", () => {
+    assertEquals(describe(graph.bfsIter([c, b])), ["C0", "B0", "D1"]);
+  });
+
+  await t.step("dfsIter should support pre- and post-order", () => {
+    assertEquals(describe(graph.dfsIter(a)), ["A0", "C1", "D2", "B1"]);
+    assertEquals(describe(graph.dfsIter(a, { order: "post" })), [
+      "D2",
+      "C1",
+      "B1",
+      "A0",
+    ]);
+  });
+
+  await t.step("traversals should stop early", () => {
+    const seen: string[] = [];
+    for (const { node } of graph.bfsIter(a)) {
+      seen.push(node.name);
+      if (node === b) break;
+    }
+    assertEquals(seen, ["A", "B"]);
+
+    const visited: string[] = [];
+    graph.dfs(a, (node) => {
+      visited.push(node.name);
+      return node !== c;
+    });
+    assertEquals(visited, ["A", "C"]);
+  });
+
+  await t.step("traverseAll should cover disconnected nodes", () => {
+    assertEquals(describe(graph.traverseAll()), ["A0", "B1", "C1", "D2", "E0"]);
+    assertEquals(
+      describe(graph.traverseAll({ algorithm: "dfs", order: "post" })),
+      ["D2", "C1", "B1", "A0", "E0"],
+    );
+  });
+
+  await t.step("missing start nodes should be reported", () => {
+    const missing = createTestData(9, 90, "Z");
+    const calls = spyConsoleError(() => {
+      assertEquals([...graph.bfsIter([a, missing])], []);
+    });
+    assertEquals(calls, ["BFS failed: Start node with data 90 not found."]);
+    const strict = new Directed<TestData>({ strict: true });
+    assertThrows(() => [...strict.dfsIter(missing)], NodeNotFoundError);
+  });
+});
+
+Deno.test("Graph Centrality", async (t) => {
+  const [a, b, c, d, e] = [1, 2, 3, 4, 5].map((i) =>
+    createTestData(i, i * 10, String.fromCharCode(64 + i))
+  );
+
+  await t.step("pageRank should match known values", () => {
+    const cycle = new Directed<TestData>();
+    [a, b, c].forEach((node) => cycle.addNode(node));
+    cycle.addEdge(a, b);
+    cycle.addEdge(b, c);
+    cycle.addEdge(c, a);
+    for (const rank of cycle.pageRank().values()) {
+      assertAlmostEquals(rank, 1 / 3, 1e-6);
+    }
+
+    // b has no outgoing edges, so its rank is spread over every node
+    const chain = new Directed<TestData>();
+    [a, b].forEach((node) => chain.addNode(node));
+    chain.addEdge(a, b);
+    const ranks = chain.pageRank({ tolerance: 1e-10 });
+    assertAlmostEquals(ranks.get(10)!, 0.5 / 1.425, 1e-8);
+    assertAlmostEquals(ranks.get(20)!, 1 - 0.5 / 1.425, 1e-8);
+
+    const calls = spyConsoleError(() => {
+      assertEquals(chain.pageRank({ damping: 1.5 }).size, 0);
+    });
+    assertEquals(calls, ["PageRank damping must be between 0 and 1"]);
+    const strict = new Directed<TestData>({ strict: true });
+    assertThrows(
+      () => strict.pageRank({ damping: -0.1 }),
+      GraphError,
+      "PageRank damping must be between 0 and 1",
+    );
+  });
+
+  await t.step("star graphs should center on the hub", () => {
+    const star = new Unidirected<TestData>();
+    [a, b, c, d, e].forEach((node) => star.addNode(node));
+    [b, c, d, e].forEach((leaf) => star.addEdge(a, leaf));
+
+    assertEquals([...star.betweennessCentrality().values()], [1, 0, 0, 0, 0]);
+    assertEquals(star.betweennessCentrality({ normalized: false }).get(10), 6);
+    assertEquals([...star.closenessCentrality().values()], [
+      1,
+      4 / 7,
+      4 / 7,
+      4 / 7,
+      4 / 7,
+    ]);
+    assertEquals([...star.degreeCentrality().values()], [
+      1,
+      0.25,
+      0.25,
+      0.25,
+      0.25,
+    ]);
+  });
+
+  await t.step("directed scores should follow edge direction", () => {
+    const graph = new Directed<TestData>();
+    [a, b, c, d, e].forEach((node) => graph.addNode(node));
+    graph.addEdge(a, b);
+    graph.addEdge(a, c);
+    graph.addEdge(b, c);
+    graph.addEdge(c, a);
+    graph.addEdge(d, c);
+
+    // c relays b -> a and d -> a, b; a relays c -> b and d -> b
+    assertEquals([...graph.betweennessCentrality().values()], [
+      2 / 12,
+      0,
+      3 / 12,
+      0,
+      0,
+    ]);
+    assertEquals(graph.degreeCentrality({ direction: "in" }).get(30), 0.75);
+    assertEquals(graph.degreeCentrality({ direction: "out" }).get(30), 0.25);
+    assertEquals(graph.degreeCentrality().get(30), 1);
+    assertEquals(graph.closenessCentrality().get(50), 0);
+  });
+
+  await t.step("weighted betweenness should follow the cheapest paths", () => {
+    const graph = new Unidirected<TestData>();
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 1);
+    graph.addWeightedEdge(b, c, 1);
+    graph.addWeightedEdge(a, c, 5);
+    graph.addWeightedEdge(c, d, 1);
+
+    assertEquals([...graph.betweennessCentrality().values()], [0, 0, 2 / 3, 0]);
+    assertEquals(
+      [...graph.betweennessCentrality({ weighted: true }).values()],
+      [
+        0,
+        2 / 3,
+        2 / 3,
+        0,
+      ],
+    );
+    assertEquals(graph.closenessCentrality({ weighted: true }).get(10), 0.5);
+
+    graph.updateEdgeWeight(a, b, -1);
+    const calls = spyConsoleError(() => {
+      assertEquals(graph.betweennessCentrality({ weighted: true }).size, 0);
+    });
+    assertEquals(calls.length, 1);
+  });
+});
+
+Deno.test("Graph Community Detection", async (t) => {
+  const nodes = Array.from(
+    { length: 6 },
+    (_, i) => createTestData(i + 1, i, String.fromCharCode(65 + i)),
+  );
+  // Two triangles joined by a single edge between nodes 2 and 3
+  const createTriangles = () => {
+    const graph = new Unidirected<TestData>();
+    nodes.forEach((node) => graph.addNode(node));
+    for (const [a, b] of [[0, 1], [1, 2], [0, 2], [3, 4], [4, 5], [3, 5]]) {
+      graph.addEdge(nodes[a], nodes[b]);
+    }
+    graph.addEdge(nodes[2], nodes[3]);
+    return graph;
+  };
+  const triangles = new Map([[0, 0], [1, 0], [2, 0], [3, 1], [4, 1], [5, 1]]);
+
+  await t.step("modularity should score a partition", () => {
+    const graph = createTriangles();
+    assertAlmostEquals(graph.modularity(triangles), 6 / 7 - 0.5, 1e-12);
+    // Every node on its own
+    assertAlmostEquals(graph.modularity(new Map()), -17 / 98, 1e-12);
+    assertEquals(new Unidirected<TestData>().modularity(new Map()), 0);
+  });
+
+  await t.step(
+    "louvain and labelPropagation should split the triangles",
+    () => {
+      const graph = createTriangles();
+      for (const seed of [1, 2, 3]) {
+        for (
+          const result of [
+            graph.louvain({ seed }),
+            graph.labelPropagation({ seed }),
+          ]
+        ) {
+          assertEquals(result.partition, triangles);
+          assertAlmostEquals(result.modularity, 6 / 7 - 0.5, 1e-12);
+        }
+      }
+    },
+  );
+
+  await t.step("the same seed should give the same partition", () => {
+    // A ring of five 4-cliques, each linked to the next
+    const graph = new Unidirected<TestData>();
+    const ring = Array.from(
+      { length: 20 },
+      (_, i) => createTestData(i, i, `N${i}`),
+    );
+    ring.forEach((node) => graph.addNode(node));
+    for (let c = 0; c < 5; c++) {
+      for (let i = 0; i < 4; i++) {
+        for (let j = i + 1; j < 4; j++) {
+          graph.addEdge(ring[c * 4 + i], ring[c * 4 + j]);
+        }
+      }
+      graph.addEdge(ring[c * 4], ring[((c + 1) % 5) * 4 + 1]);
+    }
+
+    const first = graph.louvain({ seed: 7 });
+    assertEquals(graph.louvain({ seed: 7 }), first);
+    assertEquals(new Set(first.partition.values()).size, 5);
+    assertEquals(
+      graph.labelPropagation({ seed: 7 }),
+      graph.labelPropagation({ seed: 7 }),
+    );
+  });
+
+  await t.step("weights and resolution should shape the communities", () => {
+    const graph = new Unidirected<TestData>();
+    nodes.slice(0, 4).forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(nodes[0], nodes[1], 10);
+    graph.addWeightedEdge(nodes[1], nodes[2], 1);
+    graph.addWeightedEdge(nodes[2], nodes[3], 10);
+
+    const expected = new Map([[0, 0], [1, 0], [2, 1], [3, 1]]);
+    assertEquals(graph.louvain({ seed: 1 }).partition, expected);
+    assertEquals(graph.labelPropagation({ seed: 1 }).partition, expected);
+    // A resolution of 0 rewards merging everything
+    assertEquals(
+      new Set(graph.louvain({ seed: 1, resolution: 0 }).partition.values())
+        .size,
+      1,
+    );
+  });
+
+  await t.step("negative weights should be rejected", () => {
+    const graph = createTriangles();
+    graph.updateEdgeWeight(nodes[0], nodes[1], -1);
+    const calls = spyConsoleError(() => {
+      assertEquals(graph.louvain().partition.size, 0);
+    });
+    assertEquals(calls.length, 1);
+
+    const strict = new Unidirected<TestData>({ strict: true });
+    nodes.slice(0, 2).forEach((node) => strict.addNode(node));
+    strict.addWeightedEdge(nodes[0], nodes[1], -2);
+    assertThrows(() => strict.labelPropagation(), NegativeWeightError);
+  });
+});
+
+Deno.test("Graph Multigraphs and Edge Attributes", async (t) => {
+  const a = createTestData(1, 10, "A");
+  const b = createTestData(2, 20, "B");
+  const c = createTestData(3, 30, "C");
+
+  await t.step("parallel edges should get distinct IDs", () => {
+    const graph = new Directed<TestData>();
+    [a, b].forEach((node) => graph.addNode(node));
+    const first = graph.addWeightedEdge(a, b, 5, { label: "road" })!;
+    const second = graph.addWeightedEdge(a, b, 2, {
+      label: "rail",
+      attributes: { electrified: true },
+    });
+
+    assertInstanceOf(first, GraphEdge);
+    assert(first.id !== second!.id);
+    assertEquals(graph.getEdges(a, b).map((edge) => edge.label), [
+      "road",
+      "rail",
+    ]);
+    assertEquals(graph.getEdge(a, b), first);
+    assertEquals(graph.getEdgeById(second!.id), { from: a, edge: second! });
+    assertEquals(second!.attributes, { electrified: true });
+
+    const removed: number[] = [];
+    graph.onEdgeRemoved(({ id }) => removed.push(id));
+    assert(graph.removeEdgeById(first.id));
+    assert(!graph.removeEdgeById(first.id));
+    assertEquals(removed, [first.id]);
+    assertEquals(graph.getNeighbors(a), [second!]);
+    assertEquals(graph.shortestPath(a, b)?.cost, 2);
+  });
+
+  await t.step("unidirected copies should share ID and attributes", () => {
+    const graph = new Unidirected<TestData>();
+    [a, b].forEach((node) => graph.addNode(node));
+    const added: number[] = [];
+    graph.onEdgeAdded(({ id }) => added.push(id));
+    const edge = graph.addEdge(a, b, { attributes: { since: 2020 } })!;
+
+    const twin = graph.getEdge(b, a)!;
+    assertEquals(twin.id, edge.id);
+    assertEquals(added, [edge.id]);
+    edge.attributes.since = 2021;
+    assertEquals(twin.attributes.since, 2021);
+
+    assert(graph.removeEdgeById(edge.id));
+    assertEquals(graph.edgeCount(), 0);
+    assertEquals(graph.getNeighbors(b), []);
+  });
+
+  await t.step("duplicates should be rejected or merged", () => {
+    const rejecting = new Unidirected<TestData>({ multigraph: false });
+    [a, b].forEach((node) => rejecting.addNode(node));
+    rejecting.addWeightedEdge(a, b, 1);
+    const calls = spyConsoleError(() => {
+      assertEquals(rejecting.addEdge(b, a), undefined);
+    });
+    assertEquals(calls, ["Edge from 20 to 10 already exists."]);
+    assertEquals(rejecting.edgeCount(), 1);
+
+    const strict = new Directed<TestData>({ multigraph: false, strict: true });
+    [a, b].forEach((node) => strict.addNode(node));
+    strict.addEdge(a, b);
+    strict.addEdge(b, a); // the reverse direction is a different edge
+    const error = assertThrows(() => strict.addEdge(a, b), DuplicateEdgeError);
+    assertEquals([error.from, error.to], [10, 20]);
+
+    const merging = new Unidirected<TestData>({
+      multigraph: false,
+      duplicateEdges: "merge",
+    });
+    [a, b].forEach((node) => merging.addNode(node));
+    const edge = merging.addWeightedEdge(a, b, 4, {
+      label: "friend",
+      attributes: { since: 2020 },
+    })!;
+    const merged = merging.addWeightedEdge(b, a, 7, {
+      attributes: { close: true },
+    });
+    assertEquals(merged?.id, edge.id);
+    assertEquals(merged?.target, a);
+    assertEquals(merging.edgeCount(), 1);
+    for (const copy of [merging.getEdge(a, b)!, merging.getEdge(b, a)!]) {
+      assertEquals(copy.weight, 7);
+      assertEquals(copy.label, "friend");
+      assertEquals(copy.attributes, { since: 2020, close: true });
+    }
+  });
+
+  await t.step("self-loops can be rejected", () => {
+    const graph = new Directed<TestData>({ selfLoops: "reject", strict: true });
+    [a, b].forEach((node) => graph.addNode(node));
+    const error = assertThrows(() => graph.addEdge(a, a), SelfLoopError);
+    assertEquals(error.key, 10);
+    assertEquals(graph.edgeCount(), 0);
+    assertEquals(new Directed<TestData>().selfLoops, "allow");
+  });
+
+  await t.step("labels and attributes should survive JSON", () => {
+    const graph = new Directed<TestData>();
+    [a, b, c].forEach((node) => graph.addNode(node));
+    graph.addEdge(a, b, { label: "follows" });
+    graph.addWeightedEdge(b, c, 3, { attributes: { muted: false } });
+    graph.addEdge(c, a);
+
+    const json = graph.toJSON();
+    assertEquals(json.edges, [
+      { from: 10, to: 20, label: "follows" },
+      { from: 20, to: 30, weight: 3, attributes: { muted: false } },
+      { from: 30, to: 10 },
+    ]);
+    const copy = Directed.fromJSON(JSON.stringify(json));
+    assertEquals(copy.getEdge(a, b)?.label, "follows");
+    assertEquals(copy.getEdge(b, c)?.attributes, { muted: false });
+    assertEquals(copy.toJSON().edges, json.edges);
+  });
+});
+
+Deno.test("Graph Transformations", async (t) => {
+  const [a, b, c, d] = [1, 2, 3, 4].map((i) =>
+    createTestData(i, i * 10, String.fromCharCode(64 + i))
+  );
+  const targets = (
+    graph: Directed<TestData> | Unidirected<TestData>,
+    node: TestData,
+  ) => graph.getNeighbors(node)!.map((edge) => edge.target.value);
+
+  const createDirected = (options = {}) => {
+    const graph = new Directed<TestData>(options);
+    [a, b, c, d].forEach((node) => graph.addNode(node));
+    graph.addWeightedEdge(a, b, 1, { label: "x", attributes: { tag: 1 } });
+    graph.addWeightedEdge(a, c, 2);
+    graph.addEdge(b, c);
+    graph.addEdge(c, a);
+    return graph;
+  };
+
+  await t.step("clone should not share edges with the source", () => {
+    const graph = createDirected({ keyOf: (data: TestData) => data.name });
+    let events = 0;
+    graph.onEdgeAdded(() => events++);
+    const copy = graph.clone();
+
+    assertInstanceOf(copy, Directed);
+    assertEquals(copy.getNodeByKey("A"), a);
+    assertEquals(copy.toJSON(), graph.toJSON());
+    assertEquals(copy.getEdge(a, b)?.id, graph.getEdge(a, b)?.id);
+    assert(copy.getNeighbors(a) !== graph.getNeighbors(a));
+    assert(copy.getEdge(a, b) !== graph.getEdge(a, b));
+
+    copy.getEdge(a, b)!.attributes.tag = 2;
+    copy.updateEdgeWeight(a, c, 9);
+    copy.addEdge(d, a);
+    assertEquals(graph.getEdge(a, b)?.attributes.tag, 1);
+    assertEquals(graph.getEdge(a, c)?.weight, 2);
+    assertEquals(graph.hasEdge(d, a), false);
+    assertEquals(events, 0);
+    // New edges continue after the copied IDs
+    assertEquals(copy.getEdge(d, a)?.id, 4);
+  });
+
+  await t.step("subgraph and filters should keep the induced edges", () => {
+    const graph = createDirected();
+    const induced = graph.subgraph([c, a, createTestData(9, 90, "Z")]);
+    assertEquals(induced.getNodes(), [a, c]);
+    assertEquals(targets(induced, a), [30]);
+    assertEquals(targets(induced, c), [10]);
+
+    const filtered = graph.filterNodes((node) =>
+      node.name < "B" || node.name === "C"
+    );
+    assertEquals(filtered.toJSON(), induced.toJSON());
+
+    const light = graph.filterEdges((_from, edge) => (edge.weight ?? 1) < 2);
+    assertEquals(light.getNodes().length, 4);
+    assertEquals(light.edgeCount(), 3);
+    assertEquals(light.hasEdge(a, c), false);
+
+    const ring = new Unidirected<TestData>();
+    [a, b, c].forEach((node) => ring.addNode(node));
+    ring.addEdge(a, b);
+    ring.addEdge(b, c);
+    ring.addEdge(c, a);
+    const seen: number[] = [];
+    const path = ring.filterEdges((from, edge) => {
+      seen.push(from.value);
+      return from !== a && edge.target !== a;
+    });
+    assertEquals(seen, [10, 10, 20]); // once per edge, from the earlier node
+    assertInstanceOf(path, Unidirected);
+    assertEquals(path.edgeCount(), 1);
+    assertEquals(targets(path, c), [20]);
+  });
+
+  await t.step("union and intersection should combine graphs", () => {
+    const left = createDirected();
+    const right = new Directed<TestData>();
+    [b, c, d].forEach((node) => right.addNode(node));
+    right.addWeightedEdge(b, c, 5);
+    right.addEdge(c, b);
+    right.addEdge(c, d);
+
+    const union = left.union(right);
+    assertEquals(union.getNodes(), [a, b, c, d]);
+    assertEquals(union.edgeCount(), 6);
+    assertEquals(union.getEdge(b, c)?.weight, undefined); // left's edge wins
+    assertEquals(targets(union, c), [10, 20, 40]);
+    assertEquals(
+      new Set(
+        union.getNodes().flatMap((node) =>
+          union.getNeighbors(node)!.map((edge) => edge.id)
+        ),
+      ).size,
+      6,
+    );
+
+    const common = left.intersection(right);
+    assertEquals(common.getNodes(), [b, c, d]);
+    assertEquals(common.edgeCount(), 1);
+    assert(common.hasEdge(b, c));
+  });
+
+  await t.step("union should follow the receiver's edge policies", () => {
+    const right = new Unidirected<TestData>();
+    [a, b, c].forEach((node) => right.addNode(node));
+    right.addWeightedEdge(a, b, 1, { attributes: { tag: 1 } });
+    right.addWeightedEdge(a, b, 2, { label: "second" });
+    right.addEdge(c, c);
+
+    const simple = new Unidirected<TestData>({
+      multigraph: false,
+      selfLoops: "reject",
+    });
+    [a, b].forEach((node) => simple.addNode(node));
+    const union = simple.union(right);
+    assertEquals(union.edgeCount(), 1);
+    assertEquals(union.getEdge(a, b)?.weight, 1);
+    assertEquals(union.getEdge(b, a)?.weight, 1);
+    assert(!union.hasEdge(c, c));
+
+    const merging = new Unidirected<TestData>({
+      multigraph: false,
+      duplicateEdges: "merge",
+    });
+    const merged = merging.union(right);
+    assertEquals(merged.edgeCount(), 2);
+    const edge = merged.getEdge(b, a)!;
+    assertEquals([edge.weight, edge.label, edge.attributes], [2, "second", {
+      tag: 1,
+    }]);
+    assert(merged.hasEdge(c, c));
+    // Attributes are copied, not shared with `other`
+    edge.attributes.tag = 5;
+    assertEquals(right.getEdge(a, b)?.attributes.tag, 1);
+  });
+
+  await t.step("transpose should reverse every edge", () => {
+    const graph = createDirected();
+    const reversed = graph.transpose();
+    assertInstanceOf(reversed, Directed);
+    assertEquals(targets(reversed, a), [30]);
+    assertEquals(targets(reversed, b), [10]);
+    assertEquals(targets(reversed, c), [10, 20]);
+    assertEquals(reversed.getEdge(b, a)?.label, "x");
+    assertEquals(reversed.getEdge(b, a)?.id, graph.getEdge(a, b)?.id);
+    assertEquals(
+      reversed.stronglyConnectedComponents(),
+      graph.stronglyConnectedComponents(),
+    );
+    assertEquals(reversed.transpose().toJSON(), graph.toJSON());
+  });
+
+  await t.step("toUndirected should drop edge directions", () => {
+    const graph = createDirected({ strict: true });
+    graph.addEdge(b, a);
+    const undirected = graph.toUndirected();
+    assertInstanceOf(undirected, Unidirected);
+    assert(undirected.strict);
+    assertEquals(undirected.edgeCount(), 5);
+    assertEquals(undirected.getEdges(a, b).map((edge) => edge.weight), [
+      1,
+      undefined,
+    ]);
+    assert(undirected.hasEdge(c, b));
+
+    const simple = createDirected({ multigraph: false });
+    simple.addEdge(b, a);
+    // a-b, a-c and b-c, each kept once
+    assertEquals(simple.toUndirected().edgeCount(), 3);
+
+    const copy = undirected.toUndirected();
+    assertEquals(copy.toJSON(), undirected.toJSON());
+    copy.getEdge(a, b)!.attributes.tag = 5;
+    assertEquals(copy.getEdge(b, a)?.attributes.tag, 5);
+    assertEquals(undirected.getEdge(b, a)?.attributes.tag, 1);
+  });
+});
+
+Deno.test("Graph Eulerian and Hamiltonian Paths", async (t) => {
+  const [a, b, c, d, e] = ["A", "B", "C", "D", "E"].map((name, i) =>
+    createTestData(i + 1, (i + 1) * 10, name)
+  );
+  const values = (walk: TestData[] | null) => walk?.map((node) => node.value);
+
+  // Checks that consecutive nodes are linked and the walk has one step per edge
+  const assertWalk = (
+    graph: Directed<TestData> | Unidirected<TestData>,
+    walk: TestData[] | null,
+  ) => {
+    assertExists(walk);
+    assertEquals(walk.length, graph.edgeCount() + 1);
+    for (let i = 1; i < walk.length; i++) {
+      assert(graph.hasEdge(walk[i - 1], walk[i]));
+    }
+  };
+
+  const createGraph = <G extends Directed<TestData> | Unidirected<TestData>>(
+    graph: G,
+    edges: [TestData, TestData][],
+  ): G => {
+    [a, b, c, d, e].forEach((node) => graph.addNode(node));
+    edges.forEach(([from, to]) => graph.addEdge(from, to));
+    return graph;
+  };
+
+  await t.step("directed circuits need balanced in- and out-degrees", () => {
+    const graph = createGraph(new Directed<TestData>(), [
+      [a, b],
+      [b, c],
+      [c, a],
+      [a, d],
+      [d, a],
+    ]);
+    const circuit = graph.eulerianCircuit();
+    assertWalk(graph, circuit);
+    assertEquals(values(circuit), [10, 20, 30, 10, 40, 10]);
+    assertEquals(values(graph.eulerianPath()), values(circuit));
+
+    graph.addEdge(a, e);
+    assertEquals(graph.eulerianCircuit(), null);
+    // A has one extra outgoing edge and E one extra incoming edge
+    const path = graph.eulerianPath();
+    assertWalk(graph, path);
+    assertEquals(path![0], a);
+    assertEquals(path![path!.length - 1], e);
+
+    graph.addEdge(b, e);
+    assertEquals(graph.eulerianPath(), null);
+  });
+
+  await t.step(
+    "directed paths start at the node with an extra outgoing edge",
+    () => {
+      const graph = createGraph(new Directed<TestData>(), [
+        [a, b],
+        [b, c],
+        [c, a],
+        [c, d],
+      ]);
+      assertEquals(values(graph.eulerianPath()), [30, 10, 20, 30, 40]);
+      assertEquals(graph.eulerianCircuit(), null);
+    },
+  );
+
+  await t.step("edges must be connected", () => {
+    const directed = createGraph(new Directed<TestData>(), [
+      [a, b],
+      [b, a],
+      [c, d],
+      [d, c],
+    ]);
+    assertEquals(directed.eulerianCircuit(), null);
+    assertEquals(directed.eulerianPath(), null);
+
+    const unidirected = createGraph(new Unidirected<TestData>(), [
+      [a, b],
+      [c, d],
+    ]);
+    assertEquals(unidirected.eulerianPath(), null);
+    assertEquals(new Unidirected<TestData>().eulerianCircuit(), []);
+    assertEquals(createGraph(new Directed<TestData>(), []).eulerianPath(), []);
+  });
+
+  await t.step("unidirected paths run between the two odd-degree nodes", () => {
+    // A square with one diagonal: A and C have degree 3
+    const graph = createGraph(new Unidirected<TestData>(), [
+      [a, b],
+      [b, c],
+      [c, d],
+      [d, a],
+      [a, c],
+    ]);
+    assertEquals(graph.eulerianCircuit(), null);
+    const path = graph.eulerianPath();
+    assertWalk(graph, path);
+    assertEquals(values(path), [10, 20, 30, 40, 10, 30]);
+
+    // Königsberg: every land mass touches an odd number of bridges
+    const bridges = createGraph(new Unidirected<TestData>(), [
+      [a, b],
+      [a, b],
+      [a, c],
+      [a, c],
+      [a, d],
+      [b, d],
+      [c, d],
+    ]);
+    assertEquals(bridges.eulerianPath(), null);
+  });
+
+  await t.step(
+    "unidirected circuits use parallel edges and self-loops once",
+    () => {
+      const graph = createGraph(new Unidirected<TestData>(), [
+        [a, b],
+        [a, b],
+        [c, a],
+        [c, a],
+        [c, c],
+      ]);
+      const circuit = graph.eulerianCircuit();
+      assertWalk(graph, circuit);
+      assertEquals(circuit![0], circuit![circuit!.length - 1]);
+      assertEquals(values(circuit), [10, 20, 10, 30, 30, 10]);
+    },
+  );
+
+  await t.step("hamiltonianPath should visit every node once", () => {
+    const directed = createGraph(new Directed<TestData>(), [
+      [a, c],
+      [c, b],
+      [b, d],
+      [d, e],
+      [e, a],
+      [b, a],
+    ]);
+    const path = directed.hamiltonianPath();
+    assertExists(path);
+    assertEquals(new Set(path).size, 5);
+    for (let i = 1; i < path.length; i++) {
+      assert(directed.hasEdge(path[i - 1], path[i]));
+    }
+    assertEquals(new Directed<TestData>().hamiltonianPath(), []);
+
+    // A star has no path through all of its leaves
+    const star = createGraph(new Unidirected<TestData>(), [
+      [a, b],
+      [a, c],
+      [a, d],
+      [a, e],
+    ]);
+    assertEquals(star.hamiltonianPath(), null);
+    star.addEdge(b, c);
+    star.addEdge(d, e);
+    assertEquals(values(star.hamiltonianPath()), [20, 30, 10, 50, 40]);
+  });
+
+  await t.step("hamiltonianPath should give up at its limits", () => {
+    const messages: string[] = [];
+    const logger: GraphLogger = {
+      info: (message) => messages.push(message),
+      error: () => {},
+    };
+    const graph = createGraph(new Unidirected<TestData>({ logger }), [
+      [a, b],
+      [b, c],
+      [c, d],
+      [d, e],
+    ]);
+    messages.length = 0;
+    assertEquals(graph.hamiltonianPath({ maxSteps: 2 }), null);
+    assertEquals(messages, ["Hamiltonian path search stopped after 2 steps"]);
+    assertEquals(graph.hamiltonianPath({ maxSteps: 4 })?.length, 5);
+    assertEquals(graph.hamiltonianPath({ timeoutMs: -1 }), null);
+  });
+});
@@ -0,0 +1,172 @@
+import { assert, assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+  barabasiAlbertGraph,
+  completeGraph,
+  cycleGraph,
+  erdosRenyiGraph,
+  gridGraph,
+  pathGraph,
+  randomDAG,
+  starGraph,
+} from "../structures/GraphGenerators.ts";
+import {
+  Directed,
+  manhattanHeuristic,
+  Unidirected,
+} from "../structures/Graph.ts";
+
+type Labeled = { value: number; label: string };
+
+Deno.test("GraphGenerators - deterministic shapes", () => {
+  const complete = completeGraph(5);
+  assert(complete instanceof Unidirected);
+  assertEquals(complete.edgeCount(), 10);
+  assert(complete.getNodes().every((node) => complete.degree(node) === 4));
+  assertEquals(completeGraph(5, { directed: true }).edgeCount(), 20);
+
+  const path = pathGraph(4);
+  assertEquals(path.getNodes().map((node) => path.degree(node)), [1, 2, 2, 1]);
+  assertEquals(pathGraph(0).getNodes(), []);
+
+  const cycle = cycleGraph(6, { directed: true });
+  assert(cycle instanceof Directed);
+  assertEquals(cycle.edgeCount(), 6);
+  assert(cycle.hasEdge({ value: 5 }, { value: 0 }));
+  assertEquals(cycle.stronglyConnectedComponents().length, 1);
+
+  const star = starGraph(5, { directed: true });
+  assertEquals(star.outDegree({ value: 0 }), 4);
+  assertEquals(star.inDegree({ value: 3 }), 1);
+
+  const grid = gridGraph(3, 4);
+  assertEquals(grid.getNodes().length, 12);
+  assertEquals(grid.edgeCount(), 3 * 3 + 2 * 4);
+  assertEquals(grid.getNodeByKey(6), { value: 6, x: 2, y: 1 });
+  const corner = grid.getNodeByKey(11)!;
+  const route = grid.aStar(grid.getNodeByKey(0)!, corner, manhattanHeuristic);
+  assertEquals(route?.cost, 5);
+  assertEquals(
+    gridGraph(3, 4, { directed: true }).topologicalSort()?.length,
+    12,
+  );
+});
+
+Deno.test("GraphGenerators - node data, weights and graph options", () => {
+  const labels = ["A", "B", "C", "D"];
+  const graph = pathGraph<Labeled>(4, {
+    node: (index) => ({ value: index, label: labels[index] }),
+    keyOf: (data) => data.label,
+    weights: { min: 2, max: 4, integer: true },
+    seed: 3,
+  });
+  assertEquals(graph.getNodeByKey("C"), { value: 2, label: "C" });
+  for (const node of graph.getNodes()) {
+    for (const { weight } of graph.getNeighbors(node)!) {
+      assert(Number.isInteger(weight) && weight! >= 2 && weight! <= 4);
+    }
+  }
+
+  const rounded = completeGraph(8, {
+    weights: { min: 0.5, max: 3.5, integer: true },
+    seed: 1,
+  });
+  const drawn = new Set(rounded.toJSON().edges.map(({ weight }) => weight));
+  assertEquals([...drawn].sort(), [1, 2, 3]);
+
+  const fractional = completeGraph(6, { weights: { min: 0.5, max: 1 } });
+  const weights = fractional.toJSON().edges.map(({ weight }) => weight!);
+  assert(weights.every((weight) => weight >= 0.5 && weight < 1));
+  assert(weights.some((weight) => !Number.isInteger(weight)));
+
+  const strict = starGraph(3, { strict: true });
+  assert(strict.strict);
+  assertThrows(() => strict.dijkstra({ value: 9 }));
+});
+
+Deno.test("GraphGenerators - seeded random graphs are reproducible", () => {
+  const edges = (
+    graph: Directed<{ value: number }> | Unidirected<{ value: number }>,
+  ) => graph.toJSON().edges;
+
+  const first = erdosRenyiGraph(40, 0.2, {
+    seed: 7,
+    weights: { min: 1, max: 9 },
+  });
+  assertEquals(
+    edges(first),
+    edges(erdosRenyiGraph(40, 0.2, { seed: 7, weights: { min: 1, max: 9 } })),
+  );
+  assert(
+    JSON.stringify(edges(first)) !==
+      JSON.stringify(
+        edges(
+          erdosRenyiGraph(40, 0.2, { seed: 8, weights: { min: 1, max: 9 } }),
+        ),
+      ),
+  );
+  assertEquals(
+    edges(barabasiAlbertGraph(30, 2, { seed: 1 })),
+    edges(barabasiAlbertGraph(30, 2, { seed: 1 })),
+  );
+  assertEquals(
+    edges(randomDAG(30, 0.3, { seed: 4 })),
+    edges(randomDAG(30, 0.3, { seed: 4 })),
+  );
+});
+
+Deno.test("GraphGenerators - random models at scale", () => {
+  // G(n, p) has p * n * (n - 1) / 2 edges on average
+  const sparse = erdosRenyiGraph(2000, 0.005, { seed: 1 });
+  const expected = 0.005 * 2000 * 1999 / 2;
+  assert(Math.abs(sparse.edgeCount() - expected) < expected * 0.1);
+  assert(sparse.getNodes().every((node) => !sparse.hasEdge(node, node)));
+
+  const directed = erdosRenyiGraph(300, 0.05, { seed: 2, directed: true });
+  const expectedArcs = 0.05 * 300 * 299;
+  assert(Math.abs(directed.edgeCount() - expectedArcs) < expectedArcs * 0.1);
+  assertEquals(erdosRenyiGraph(10, 1, { directed: true }).edgeCount(), 90);
+  assertEquals(erdosRenyiGraph(10, 0).edgeCount(), 0);
+
+  const scaleFree = barabasiAlbertGraph(1000, 3, { seed: 5 });
+  assertEquals(scaleFree.edgeCount(), 3 * 997);
+  assertEquals(scaleFree.connectedComponents().length, 1);
+  const degrees = scaleFree.getNodes().map((node) => scaleFree.degree(node)!);
+  assert(Math.min(...degrees) >= 3);
+  // Preferential attachment grows hubs far above the average degree of 6
+  assert(Math.max(...degrees) > 40);
+
+  const dag = randomDAG(500, 0.02, { seed: 6 });
+  assert(dag instanceof Directed);
+  assert(!dag.hasCycle());
+  for (const { from, to } of dag.toJSON().edges) {
+    assert((from as number) < (to as number));
+  }
+});
+
+Deno.test("GraphGenerators - invalid arguments", () => {
+  assertThrows(
+    () => completeGraph(-1),
+    Error,
+    "Node count must be an integer of at least 0",
+  );
+  assertThrows(() => gridGraph(2, 1.5), Error, "Column count");
+  assertThrows(() => cycleGraph(2), Error, "at least 3");
+  assertThrows(() => erdosRenyiGraph(5, 1.5), Error, "between 0 and 1");
+  assertThrows(() => randomDAG(5, Number.NaN), Error, "between 0 and 1");
+  assertThrows(
+    () => barabasiAlbertGraph(3, 3),
+    Error,
+    "Node count must be an integer of at least 4",
+  );
+  assertThrows(() => barabasiAlbertGraph(5, 0), Error, "Edges per node");
+  assertThrows(
+    () => pathGraph(3, { weights: { min: 5, max: 1 } }),
+    Error,
+    "Weight range minimum must not exceed its maximum",
+  );
+  assertThrows(
+    () => pathGraph(3, { weights: { min: 1.2, max: 1.8, integer: true } }),
+    Error,
+    "Weight range must contain a whole number",
+  );
+});
@@ -0,0 +1,74 @@
+import { assert, assertEquals, assertThrows } from "jsr:@std/assert";
+import { PriorityQueue } from "../structures/PriorityQueue.ts";
+import { NumberWrapper } from "../utils/NumberWrapper.ts";
+
+Deno.test("PriorityQueue - push and pop in priority order", () => {
+  const pq = new PriorityQueue<number>();
+  for (const n of [5, 3, 8, 1, 9, 2, 7]) pq.push(n);
+  assertEquals(pq.size(), 7);
+
+  const result: number[] = [];
+  while (!pq.isEmpty()) result.push(pq.pop()!);
+  assertEquals(result, [1, 2, 3, 5, 7, 8, 9]);
+  assertEquals(pq.pop(), undefined);
+});
+
+Deno.test("PriorityQueue - custom comparator", () => {
+  const pq = new PriorityQueue<number>((a, b) => b - a); // max-heap
+  for (const n of [5, 3, 8, 1]) pq.push(n);
+  assertEquals(pq.peek(), 8);
+  assertEquals(pq.toArray(), [8, 5, 3, 1]);
+});
+
+Deno.test("PriorityQueue - Comparable elements", () => {
+  const pq = new PriorityQueue<NumberWrapper>();
+  pq.push(new NumberWrapper(10));
+  pq.push(new NumberWrapper(4));
+  pq.push(new NumberWrapper(7));
+  assertEquals(pq.pop()?.value, 4);
+  assertEquals(pq.pop()?.value, 7);
+  assertEquals(pq.pop()?.value, 10);
+});
+
+Deno.test("PriorityQueue - decreaseKey and update", () => {
+  const pq = new PriorityQueue<number>();
+  pq.push(5);
+  const handle = pq.push(10);
+  pq.push(7);
+
+  pq.decreaseKey(handle, 1);
+  assertEquals(handle.value, 1);
+  assertEquals(pq.peek(), 1);
+
+  pq.update(handle, 20); // increase moves it to the back
+  assertEquals(pq.toArray(), [5, 7, 20]);
+
+  assertThrows(
+    () => pq.decreaseKey(handle, 30),
+    Error,
+    "New key has a lower priority than the current key",
+  );
+});
+
+Deno.test("PriorityQueue - remove and stale handles", () => {
+  const pq = new PriorityQueue<number>();
+  const a = pq.push(1);
+  const b = pq.push(2);
+  pq.push(3);
+
+  assert(pq.remove(b));
+  assert(!pq.contains(b));
+  assert(!pq.remove(b));
+  assertEquals(pq.toArray(), [1, 3]);
+
+  assertEquals(pq.pop(), 1);
+  assert(!pq.contains(a));
+  assertThrows(
+    () => pq.update(a, 0),
+    Error,
+    "Handle is not in the priority queue",
+  );
+
+  pq.clear();
+  assert(pq.isEmpty());
+});
@@ -0,0 +1,219 @@
+/**
+ * This module provides a small reader and writer for the Graphviz DOT language.
+ * It understands the subset emitted by the graph `toDOT` methods: node and edge
+ * statements with attribute lists, plus graph-level attribute statements and
+ * comments, which are skipped. Subgraphs, ports and edge chains are not supported.
+ * @module
+ */
+
+/**
+ * A DOT attribute list, e.g. `[label="A", color=red]`.
+ */
+export type DotAttributes = Record<string, string>;
+
+/**
+ * The statements of a DOT document, as returned by `parseDOT`.
+ */
+export type DotDocument = {
+  /** `true` for `digraph` documents, `false` for `graph` documents. */
+  directed: boolean;
+  /** The graph name, or an empty string if the graph is anonymous. */
+  name: string;
+  /** Every node ID in order of first appearance, with its merged attributes. */
+  nodes: Map<string, DotAttributes>;
+  /** Every edge statement in document order. */
+  edges: { from: string; to: string; attributes: DotAttributes }[];
+};
+
+/**
+ * Quotes a string as a DOT ID, escaping embedded quotes and backslashes.
+ * @param value The raw string.
+ * @returns The quoted ID.
+ */
+export function quoteDOT(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Formats an attribute list, or returns an empty string when there are no attributes.
+ * @param attributes The attributes to format.
+ * @returns The attribute list including its leading space, e.g. ` [label="A"]`.
+ */
+export function formatAttributesDOT(attributes: DotAttributes): string {
+  const entries = Object.entries(attributes);
+  if (entries.length === 0) return "";
+  return ` [${
+    entries.map(([key, value]) => `${key}=${quoteDOT(value)}`).join(", ")
+  }]`;
+}
+
+/**
+ * Splits a DOT document into tokens: IDs (quoted or bare), edge operators and punctuation.
+ * Quoted IDs are returned unescaped and flagged so they are never mistaken for keywords.
+ */
+function tokenize(dot: string): { text: string; quoted: boolean }[] {
+  const tokens: { text: string; quoted: boolean }[] = [];
+  let i = 0;
+
+  while (i < dot.length) {
+    const char = dot[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if ((char === "/" && dot[i + 1] === "/") || char === "#") {
+      while (i < dot.length && dot[i] !== "\n") i++;
+    } else if (char === "/" && dot[i + 1] === "*") {
+      const end = dot.indexOf("*/", i + 2);
+      i = end === -1 ? dot.length : end + 2;
+    } else if (char === '"') {
+      let text = "";
+      i++;
+      while (i < dot.length && dot[i] !== '"') {
+        if (dot[i] === "\\" && i + 1 < dot.length) {
+          // Keep unknown escapes (such as \n in labels) as written
+          text += dot[i + 1] === '"' || dot[i + 1] === "\\"
+            ? dot[i + 1]
+            : dot[i] + dot[i + 1];
+          i += 2;
+        } else {
+          text += dot[i++];
+        }
+      }
+      if (i >= dot.length) throw new Error("Invalid DOT: unterminated string");
+      i++;
+      tokens.push({ text, quoted: true });
+    } else if (char === "-" && (dot[i + 1] === ">" || dot[i + 1] === "-")) {
+      tokens.push({ text: dot.slice(i, i + 2), quoted: false });
+      i += 2;
+    } else if ("{}[]=;,".includes(char)) {
+      tokens.push({ text: char, quoted: false });
+      i++;
+    } else {
+      // Bare IDs are numerals or alphanumeric identifiers
+      const match =
+        /^(-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)|[A-Za-z_\u0080-\uFFFF][A-Za-z0-9_\u0080-\uFFFF]*)/
+          .exec(dot.slice(i));
+      if (!match) {
+        throw new Error(`Invalid DOT: unexpected character '${char}'`);
+      }
+      tokens.push({ text: match[0], quoted: false });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a DOT document into its node and edge statements.
+ * @param dot The DOT source text.
+ * @returns The parsed document.
+ * @throws {Error} If the document is malformed or uses unsupported syntax.
+ */
+export function parseDOT(dot: string): DotDocument {
+  const tokens = tokenize(dot);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => {
+    const token = tokens[position++];
+    if (!token) throw new Error("Invalid DOT: unexpected end of input");
+    return token;
+  };
+  const expect = (text: string) => {
+    const token = next();
+    if (token.quoted || token.text !== text) {
+      throw new Error(
+        `Invalid DOT: expected '${text}' but found '${token.text}'`,
+      );
+    }
+  };
+  const isSymbol = (text: string) =>
+    peek() !== undefined && !peek().quoted && peek().text === text;
+
+  const readAttributes = (): DotAttributes => {
+    const attributes: DotAttributes = {};
+    while (isSymbol("[")) {
+      next();
+      while (!isSymbol("]")) {
+        const key = next().text;
+        expect("=");
+        attributes[key] = next().text;
+        if (isSymbol(",") || isSymbol(";")) next();
+      }
+      expect("]");
+    }
+    return attributes;
+  };
+
+  let header = next();
+  if (!header.quoted && header.text.toLowerCase() === "strict") header = next();
+  const kind = header.text.toLowerCase();
+  if (header.quoted || (kind !== "digraph" && kind !== "graph")) {
+    throw new Error(
+      "Invalid DOT: document must start with 'digraph' or 'graph'",
+    );
+  }
+  const directed = kind === "digraph";
+  const name = isSymbol("{") ? "" : next().text;
+  expect("{");
+
+  const document: DotDocument = { directed, name, nodes: new Map(), edges: [] };
+  const declare = (id: string, attributes: DotAttributes = {}) => {
+    document.nodes.set(id, { ...document.nodes.get(id), ...attributes });
+  };
+
+  while (!isSymbol("}")) {
+    const first = next();
+    if (!first.quoted && "{[]=;,".includes(first.text)) {
+      if (first.text === ";") continue;
+      throw new Error(`Invalid DOT: unexpected '${first.text}'`);
+    }
+
+    const keyword = first.quoted ? "" : first.text.toLowerCase();
+    if (keyword === "subgraph") {
+      throw new Error("Invalid DOT: subgraphs are not supported");
+    }
+
+    if (isSymbol("=")) {
+      // Graph-level attribute such as rankdir=LR
+      next();
+      next();
+    } else if (
+      (keyword === "graph" || keyword === "node" || keyword === "edge") &&
+      isSymbol("[")
+    ) {
+      // Default attribute statements do not describe graph content
+      readAttributes();
+    } else if (isSymbol("->") || isSymbol("--")) {
+      const operator = next().text;
+      if (operator !== (directed ? "->" : "--")) {
+        throw new Error(
+          `Invalid DOT: '${operator}' edges are not allowed in a ${kind}`,
+        );
+      }
+      const target = next().text;
+      if (isSymbol("->") || isSymbol("--")) {
+        throw new Error("Invalid DOT: edge chains are not supported");
+      }
+      declare(first.text);
+      declare(target);
+      document.edges.push({
+        from: first.text,
+        to: target,
+        attributes: readAttributes(),
+      });
+    } else {
+      declare(first.text, readAttributes());
+    }
+
+    if (isSymbol(";")) next();
+  }
+  expect("}");
+
+  if (position < tokens.length) {
+    throw new Error("Invalid DOT: unexpected content after closing brace");
+  }
+
+  return document;
+}
@@ -0,0 +1,43 @@
+/**
+ * This module provides a small seedable pseudo-random number generator, so that randomized
+ * graph algorithms can produce the same results on every run when given the same seed.
+ * @module
+ */
+
+/**
+ * A function returning a pseudo-random number in `[0, 1)`, like `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a random number source. With a seed, the source is a Mulberry32 generator, which
+ * produces the same sequence for the same seed; without one, it is `Math.random`.
+ * @param seed Optional integer seed. Fractional seeds are truncated.
+ * @returns A function returning numbers in `[0, 1)`.
+ */
+export function createRandom(seed?: number): RandomSource {
+  if (seed === undefined) return Math.random;
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffles an array in place with the Fisher-Yates algorithm.
+ * @param items The array to shuffle.
+ * @param random The random number source to draw from.
+ * @returns The same array, shuffled.
+ */
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
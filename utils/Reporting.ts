@@ -0,0 +1,34 @@
+/**
+ * This module holds how graphs report their messages and failures, shared by the Map-based
+ * graphs and `CompactGraph` so that strict mode and logging behave the same in both.
+ * @module
+ */
+import type { GraphError, GraphLogger } from "../structures/Graph.ts";
+
+/**
+ * The logger used when none is given: quiet, except for errors.
+ */
+export const defaultLogger: GraphLogger = {
+  info: () => {},
+  error: (message) => console.error(message),
+};
+
+/**
+ * Reports a failure: throws it in strict mode, otherwise logs its message.
+ * @param error The error describing the failure.
+ * @param fallback The value to return outside of strict mode.
+ * @param strict Whether the graph is in strict mode.
+ * @param logger The graph's logger.
+ * @returns The fallback value.
+ * @throws {GraphError} The given error, in strict mode.
+ */
+export function reportFailure<R>(
+  error: GraphError,
+  fallback: R,
+  strict: boolean,
+  logger: GraphLogger,
+): R {
+  if (strict) throw error;
+  logger.error(error.message);
+  return fallback;
+}